@@ -1,8 +1,9 @@
 import { Octokit } from "@octokit/rest";
-import Groq from "groq-sdk";
 import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
 import { PlannedDocUpdate } from "../types";
+import { createFullConfig } from "../../src/config";
+import { getLLMProvider } from "../../src/llm";
 
 
 
@@ -20,16 +21,15 @@ export const planDocumentationUpdates = createAction({
     ) {
 
         console.log("📝 Planning documentation updates...", parameters);
-        if (!process.env.GROQ_API_KEY) {
-            throw new Error("GROQ_API_KEY environment variable is required");
-        }
         if (!process.env.GITHUB_TOKEN) {
             throw new Error("GITHUB_TOKEN environment variable is required");
         }
 
         const { files, framework, username, repository } = context.state;
 
-        const groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
+        // Provider and model come from the configuration or LLM_PROVIDER and LLM_MODEL
+        const config = context.state.config || createFullConfig({});
+        const llm = getLLMProvider(config, "generateInitialDocs");
 
         // Construct the prompt for the LLM
         const prompt = `
@@ -81,8 +81,7 @@ Example response format:
 `.trim();
 
         // Use the LLM from the action context to process the prompt.
-        const response = await groqClient.chat.completions.create({
-            model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
+        const content = await llm.complete({
             messages: [
                 {
                     role: "system",
@@ -97,10 +96,9 @@ Only output the JSON object.
                 },
             ],
             temperature: 0.3,
-            response_format: { type: "json_object" },
+            json: true,
         });
 
-        const content = response.choices[0]?.message?.content;
         if (!content) {
             throw new Error("Failed to generate documentation plan");
         }
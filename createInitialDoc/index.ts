@@ -1,32 +1,16 @@
-import { createAction, createAgent, createHttpLLM, SpinAiContext } from "spinai";
+import { createAgent } from "spinai";
 import dotenv from "dotenv";
 import { listRepositoryFiles } from "./actions/listRepositoryFiles";
 import { planDocumentationUpdates } from "./actions/planDocumentationUpdates";
+import { createFullConfig } from "../src/config";
+import { resolveLLMSettings } from "../src/llm";
+import { createAgentLLM } from "../src/llm/agentLLM";
 
 dotenv.config();
 
-// Define the Groq-based LLM
-const groqLLM = createHttpLLM({
-    endpoint: "https://api.groq.com/openai/v1/chat/completions",
-    apiKey: process.env.GROQ_API_KEY, // Ensure the API key is set in your environment
-    headers: {
-        "Authorization": `Bearer ${process.env.GROQ_API_KEY}`,
-        "Content-Type": "application/json"
-    },
-    // Transform request body to match Groq API expectations
-    transformRequest: (body: any) => {
-        return ({
-            model: "llama-3.1-8b-instant", // Change if using another Groq model
-            messages: body.messages,
-            temperature: body.temperature ?? 0.7,
-            max_tokens: body.max_tokens ?? 1024,
-        })
-    },
-    // Transform response to extract the text content
-    transformResponse: (response: any) => {
-        return response.choices[0]?.message?.content || ""
-    }
-});
+// The agent talks to the provider configured through LLM_PROVIDER and LLM_MODEL
+const config = createFullConfig({});
+const llm = createAgentLLM(resolveLLMSettings(config.llmConfig));
 
 const agent = createAgent({
     instructions: `
@@ -36,9 +20,9 @@ When triggered, you:
 2. Analyze the files and determine which ones need documentation.
 3. End 
     `,
-    llm: groqLLM,
+    llm,
     actions: [listRepositoryFiles, planDocumentationUpdates],
-    agentId: "groq-agent",
+    agentId: "initial-docs-agent",
 });
 
 
@@ -49,6 +33,7 @@ When triggered, you:
             state: {
                 username: "piccolojnr",
                 repository: "docs-updater",
+                config,
             },
         });
     } catch (error) {
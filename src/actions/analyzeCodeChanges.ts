@@ -1,8 +1,24 @@
 import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
-import type { ReviewState, CodeChange, CodeAnalysis } from "../types";
+import type {
+  ReviewState,
+  CodeChange,
+  CodeChangeType,
+  CodeAnalysis,
+  DocUpdateConfig,
+} from "../types";
 import { Octokit } from "@octokit/rest";
-import Groq from "groq-sdk";
+import { completeStructured, getLLMProvider } from "../llm";
+import type { LLMProvider } from "../llm";
+import * as schema from "../llm/schema";
+import { estimateTokens } from "../llm/tokens";
+import { planBatches } from "../diffChunking";
+import { getMergeBase, listPullRequestFiles } from "../github";
+import { analyzeSymbols } from "../analyzers";
+import { classifyBreakingChanges } from "../breakingChanges";
+import { findRelatedFiles, loadDependencyGraph } from "../dependencyGraph";
+import { matchFile } from "../fileMatcher";
+import { resolveMappedDocs } from "../pathMappings";
 
 interface AnalyzeCodeChangesParams {
   owner: string;
@@ -22,19 +38,118 @@ function isAnalyzeCodeChangesParams(
   );
 }
 
+const changeAnalysisSchema = schema.object({
+  summary: schema.string({ nonEmpty: true }),
+  impactedAreas: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+  significantChanges: schema.boolean(),
+  breakingChanges: schema.optional(
+    schema.array(
+      schema.object({
+        file: schema.string({ nonEmpty: true }),
+        description: schema.string({ nonEmpty: true }),
+      })
+    ),
+    []
+  ),
+});
+
+type ChangeAnalysis = schema.Infer<typeof changeAnalysisSchema>;
+
+// Tokens of one analysis request, unless llmStages.analyzeChanges.maxInputTokens is set
+const DEFAULT_INPUT_TOKEN_BUDGET = 12000;
+
+const ANALYSIS_PROMPT = `You are a code analysis expert. Analyze the following code changes and provide:
+1. A brief summary of the changes
+2. Identification of impacted areas/categories
+3. Assessment of whether these are significant changes (new features, API changes, etc.)
+4. Breaking changes: changes that force users of the code to change theirs, like removed or renamed APIs, changed signatures, renamed routes or removed model attributes
+
+Some patches may be omitted or truncated to fit the request, they are summarized with their line counts.
+When a file lists its symbol changes, they were parsed from the source and are the authoritative list of its API changes.
+
+Return your analysis as a JSON object with this structure:
+{
+  "summary": "Brief description of changes",
+  "impactedAreas": ["area1", "area2"],
+  "significantChanges": boolean,
+  "breakingChanges": [{"file": "path/of/file", "description": "What breaks and how to migrate"}]
+}`;
+
+// Reduce step: merge the analyses of the batches of a large PR
+async function mergeAnalyses(
+  llm: LLMProvider,
+  partials: ChangeAnalysis[]
+): Promise<ChangeAnalysis> {
+  const merged = await completeStructured(llm, {
+    messages: [
+      {
+        role: "system" as const,
+        content: `You are a code analysis expert. A pull request was too large to analyze at once, so its changes were analyzed in parts. Merge the analyses of the parts into one analysis of the whole pull request, with a single summary.
+
+Return your analysis as a JSON object with this structure:
+{
+  "summary": "Brief description of changes",
+  "impactedAreas": ["area1", "area2"],
+  "significantChanges": boolean
+}`,
+      },
+      {
+        role: "user" as const,
+        content: `Here are the analyses of the ${partials.length} parts:
+${JSON.stringify(partials, null, 2)}`,
+      },
+    ],
+    temperature: 0.1,
+    json: true,
+  }, changeAnalysisSchema, { label: "analyzeChanges (merge)" });
+
+  // Don't let the merge drop what a part found
+  return {
+    summary: merged.summary,
+    impactedAreas: Array.from(
+      new Set([...merged.impactedAreas, ...partials.flatMap((p) => p.impactedAreas)])
+    ),
+    significantChanges:
+      merged.significantChanges || partials.some((p) => p.significantChanges),
+    // The parts saw the patches, the merge only their summaries
+    breakingChanges: partials.flatMap((p) => p.breakingChanges),
+  };
+}
+
 async function analyzeChanges(
-  groq: Groq,
-  files: { filename: string; patch?: string; status: string }[]
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  refs: { base: string; head: string },
+  llm: LLMProvider,
+  files: {
+    filename: string;
+    previous_filename?: string;
+    patch?: string;
+    status: string;
+  }[],
+  config: DocUpdateConfig
 ): Promise<CodeAnalysis> {
+  const inputTokenBudget =
+    config.llmConfig?.stages?.analyzeChanges?.maxInputTokens || DEFAULT_INPUT_TOKEN_BUDGET;
   const changes: CodeChange[] = [];
   const impactedAreas = new Set<string>();
 
-  // First pass: Basic analysis of each file
+  // First pass: Basic analysis of each file not ignored by the configuration
   for (const file of files) {
+    const match = matchFile(file.filename, config.matchRules);
+    const icon = !match.included ? "🚫" : match.important ? "⭐" : "✅";
+    console.log(
+      `${icon} ${match.included ? "Keeping" : "Dropping"} ${file.filename}: ${match.reason}`
+    );
+    if (!match.included) {
+      continue;
+    }
+
     const pathParts = file.filename.split("/");
     const category = pathParts[pathParts.length - 2] || "";
 
-    // Basic significance checks
+    // Basic significance checks, refined from the AST where an analyzer exists
     const significance = {
       hasExports: file.patch?.includes("export ") || false,
       hasInterfaces: file.patch?.includes("interface ") || false,
@@ -43,14 +158,20 @@ async function analyzeChanges(
       hasEnums: file.patch?.includes("enum ") || false,
       isTest:
         file.filename.includes(".test.") || file.filename.includes(".spec."),
+      isImportant: match.important,
     };
 
     changes.push({
       file: file.filename,
       patch: file.patch || "",
-      type: file.status as "added" | "modified" | "deleted",
+      previousFile: file.previous_filename,
+      type: file.status as CodeChangeType,
       significance,
       category,
+      mappedDocs: resolveMappedDocs(
+        [file.filename, file.previous_filename],
+        config.matchRules.pathMappings
+      ),
     });
 
     if (category && !significance.isTest) {
@@ -58,64 +179,74 @@ async function analyzeChanges(
     }
   }
 
-  // Use LLM for deeper analysis
-  const response = await groq.chat.completions.create({
-    model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
-    messages: [
-      {
-        role: "system" as const,
-        content: `You are a code analysis expert. Analyze the following code changes and provide:
-1. A brief summary of the changes
-2. Identification of impacted areas/categories
-3. Assessment of whether these are significant changes (new features, API changes, etc.)
-4. Related files that might need documentation updates
+  if (!changes.length) {
+    return {
+      changes,
+      impactedAreas: [],
+      significantChanges: false,
+      breakingChanges: [],
+      summary: `All ${files.length} changed files are ignored by the configuration`,
+    };
+  }
 
-Return your analysis as a JSON object with this structure:
-{
-  "summary": "Brief description of changes",
-  "impactedAreas": ["area1", "area2"],
-  "significantChanges": boolean,
-  "relatedFiles": ["file1", "file2"]
-}`,
-      },
-      {
-        role: "user" as const,
-        content: `Here are the code changes to analyze:
-${changes
-            .map(
-              (change) => `
-File: ${change.file} (${change.type})
-Category: ${change.category}
-Significance: ${JSON.stringify(change.significance)}
-Patch:
-\`\`\`diff
-${change.patch}
-\`\`\`
-`
-            )
-            .join("\n")}`,
-      },
-    ],
-    temperature: 0.1,
-    response_format: { type: "json_object" },
-  });
+  await analyzeSymbols(octokit, owner, repo, changes, refs);
 
-  const analysis = JSON.parse(response.choices[0]?.message?.content || "{}");
+  // Use LLM for deeper analysis, in batches that fit the token budget
+  const batches = planBatches(changes, inputTokenBudget - estimateTokens(ANALYSIS_PROMPT));
+  const partials: ChangeAnalysis[] = [];
+  for (const [index, batch] of batches.entries()) {
+    const part = batches.length > 1 ? ` (part ${index + 1} of ${batches.length})` : "";
+    partials.push(
+      await completeStructured(llm, {
+        messages: [
+          { role: "system" as const, content: ANALYSIS_PROMPT },
+          {
+            role: "user" as const,
+            content: `Here are the code changes to analyze${part}:
+${batch.text}`,
+          },
+        ],
+        temperature: 0.1,
+        json: true,
+      }, changeAnalysisSchema, { label: `analyzeChanges${part}` })
+    );
+  }
+  const analysis = partials.length === 1 ? partials[0] : await mergeAnalyses(llm, partials);
 
-  // Update changes with related files from analysis
-  for (const change of changes) {
-    change.relatedFiles = analysis.relatedFiles?.filter(
-      (file: string) => file !== change.file
+  // Related files come from the import graph of the head commit
+  try {
+    const graph = await loadDependencyGraph(
+      octokit,
+      owner,
+      repo,
+      refs.head,
+      config,
+      changes.map((change) => change.file)
+    );
+    for (const change of changes) {
+      change.relatedFiles = findRelatedFiles(
+        graph,
+        change.file,
+        config.matchRules.relatedFilesDepth
+      );
+    }
+  } catch (error) {
+    console.log(
+      "⚠️ Could not build the dependency graph, continuing without related files:",
+      error instanceof Error ? error.message : error
     );
   }
 
+  const breakingChanges = classifyBreakingChanges(changes, analysis.breakingChanges);
+
   return {
     changes,
     impactedAreas: Array.from(
-      new Set([...impactedAreas, ...(analysis.impactedAreas || [])])
+      new Set([...impactedAreas, ...analysis.impactedAreas])
     ),
-    significantChanges: analysis.significantChanges || false,
-    summary: analysis.summary || "No summary provided",
+    significantChanges: analysis.significantChanges || breakingChanges.length > 0,
+    breakingChanges,
+    summary: analysis.summary,
   };
 }
 
@@ -139,34 +270,53 @@ export const analyzeCodeChanges = createAction({
     if (!process.env.GITHUB_TOKEN) {
       throw new Error("GITHUB_TOKEN environment variable is required");
     }
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
     if (!parameters || !isAnalyzeCodeChangesParams(parameters)) {
       throw new Error("Invalid parameters provided");
     }
 
+    const state = context.state as ReviewState;
     const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-    const openai = new Groq({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = getLLMProvider(state.config, "analyzeChanges");
 
     // Get the PR diff
-    const { data: files } = await octokit.pulls.listFiles({
+    const { data: pr } = await octokit.pulls.get({
       owner: parameters.owner,
       repo: parameters.repo,
       pull_number: parameters.pull_number,
     });
+    const files = await listPullRequestFiles(
+      octokit,
+      parameters.owner,
+      parameters.repo,
+      parameters.pull_number
+    );
 
-    // Analyze the changes
-    const analysis = await analyzeChanges(openai, files);
+    // Analyze the changes, against the commit the PR branched from
+    const base = await getMergeBase(
+      octokit,
+      parameters.owner,
+      parameters.repo,
+      pr.base.sha,
+      pr.head.sha
+    );
+    const analysis = await analyzeChanges(
+      octokit,
+      parameters.owner,
+      parameters.repo,
+      { base, head: pr.head.sha },
+      llm,
+      files,
+      state.config
+    );
 
     // Store analysis in state
-    const state = context.state as ReviewState;
     state.codeAnalysis = analysis;
 
     console.log("\n=== Code Analysis Results ===");
     console.log("Summary:", analysis.summary);
     console.log("Impacted Areas:", analysis.impactedAreas.join(", "));
     console.log("Significant Changes:", analysis.significantChanges);
+    console.log("Breaking Changes:", analysis.breakingChanges.length);
     console.log("Number of Files:", analysis.changes.length);
 
     return context;
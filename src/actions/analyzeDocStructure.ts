@@ -7,7 +7,18 @@ import type {
   NavigationItem,
 } from "../types";
 import { Octokit } from "@octokit/rest";
-import Groq from "groq-sdk";
+import { completeStructured, getLLMProvider } from "../llm";
+import type { LLMProvider } from "../llm";
+import * as schema from "../llm/schema";
+import { resolveDocsRepo } from "../github";
+import { docsRoot } from "../docsPaths";
+import {
+  cacheDocStructure,
+  fetchTree,
+  getCachedDocStructure,
+  readBlob,
+} from "../docsTree";
+import type { TreeEntry } from "../docsTree";
 
 interface AnalyzeDocStructureParams {
   owner: string;
@@ -25,11 +36,22 @@ function isAnalyzeDocStructureParams(
   );
 }
 
+/**
+ * Build the structure of the docs from the tree of the docs branch: pages,
+ * categories (the top-level directories), the file tree and the navigation
+ * of mint.json, the only file read
+ * @param octokit - Octokit instance
+ * @param owner - Docs repository owner
+ * @param repo - Docs repository name
+ * @param entries - Entries of the recursive tree of the docs branch
+ * @param docsDir - Docs directory, empty for the repository root
+ * @returns The structure, without references
+ */
 async function buildDocStructure(
   octokit: Octokit,
   owner: string,
   repo: string,
-  branch: string,
+  entries: TreeEntry[],
   docsDir: string
 ): Promise<DocStructure> {
   const files: DocFile[] = [];
@@ -37,65 +59,49 @@ async function buildDocStructure(
   let fileTree = "";
   let navigation: NavigationItem[] = [];
 
-  async function traverse(currentPath: string, depth: number = 0) {
-    try {
-      const { data: contents } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: currentPath,
-        ref: branch,
-      });
+  const prefix = docsDir ? `${docsDir}/` : "";
+  for (const item of entries) {
+    if (!item.path.startsWith(prefix)) {
+      continue;
+    }
+    const segments = item.path.slice(prefix.length).split("/");
+
+    // Add to file tree with proper indentation
+    fileTree += `${" ".repeat((segments.length - 1) * 2)}${item.type === "tree" ? "📁" : "📄"} ${item.path}\n`;
 
-      for (const item of Array.isArray(contents) ? contents : [contents]) {
-        // Add to file tree with proper indentation
-        fileTree += `${" ".repeat(depth * 2)}${item.type === "dir" ? "📁" : "📄"} ${item.path}\n`;
-
-        if (item.type === "dir") {
-          // Add category if it's a direct subdirectory of docsDir
-          if (currentPath === docsDir) {
-            categories.add(item.name);
-          }
-          await traverse(item.path, depth + 1);
-        } else if (item.path.endsWith(".mdx") || item.path.endsWith(".md")) {
-          // Extract category from path
-          const pathParts = item.path.split("/");
-          const category = pathParts[pathParts.length - 2];
-
-          // Add file to the collection
-          files.push({
-            path: item.path,
-            type: item.type,
-            category,
-          });
-        } else if (item.path.endsWith("mint.json")) {
-          try {
-            // Get navigation structure from mint.json
-            const { data: fileData } = await octokit.repos.getContent({
-              owner,
-              repo,
-              path: item.path,
-              ref: branch,
-            });
-
-            if ("content" in fileData) {
-              const content = Buffer.from(fileData.content, "base64").toString(
-                "utf-8"
-              );
-              const mintJson = JSON.parse(content);
-              navigation = mintJson.navigation || [];
-            }
-          } catch (error) {
-            console.error("Error reading mint.json:", error);
-          }
-        }
+    if (item.type === "tree") {
+      // Add category if it's a direct subdirectory of docsDir
+      if (segments.length === 1) {
+        categories.add(segments[0]);
       }
-    } catch (error) {
-      console.error(`Error reading directory ${currentPath}:`, error);
+    } else if (item.path.endsWith(".mdx") || item.path.endsWith(".md")) {
+      // Extract category from path
+      const pathParts = item.path.split("/");
+      const category = pathParts[pathParts.length - 2];
+
+      files.push({
+        path: item.path,
+        type: "file",
+        sha: item.sha,
+        category,
+      });
     }
   }
 
-  // Start traversal from docs directory
-  await traverse(docsDir);
+  // Get navigation structure from mint.json, preferably the docs root's
+  const mintJson =
+    entries.find((item) => item.type === "blob" && item.path === `${prefix}mint.json`) ||
+    entries.find(
+      (item) => item.type === "blob" && item.path.startsWith(prefix) && item.path.endsWith("/mint.json")
+    );
+  if (mintJson) {
+    try {
+      const content = await readBlob(octokit, owner, repo, mintJson.sha);
+      navigation = JSON.parse(content).navigation || [];
+    } catch (error) {
+      console.error("Error reading mint.json:", error);
+    }
+  }
 
   return {
     files,
@@ -105,32 +111,27 @@ async function buildDocStructure(
   };
 }
 
+const docReferencesSchema = schema.object({
+  references: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+  codeFiles: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+  relatedDocs: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+});
+
 async function analyzeDocReferences(
-  openai: Groq,
+  llm: LLMProvider,
   docStructure: DocStructure,
   octokit: Octokit,
   owner: string,
-  repo: string,
-  branch: string
+  repo: string
 ): Promise<DocStructure> {
   // For each documentation file, analyze its content for references
   for (const file of docStructure.files) {
     try {
-      const { data: fileData } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: file.path,
-        ref: branch,
-      });
-
-      if ("content" in fileData) {
-        const content = Buffer.from(fileData.content, "base64").toString(
-          "utf-8"
-        );
+      if (file.sha) {
+        const content = await readBlob(octokit, owner, repo, file.sha);
 
         // Use LLM to analyze file content for references
-        const response = await openai.chat.completions.create({
-          model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
+        const analysis = await completeStructured(llm, {
           messages: [
             {
               role: "system" as const,
@@ -152,19 +153,15 @@ Return your analysis as a JSON object with this structure:
             },
           ],
           temperature: 0.1,
-          response_format: { type: "json_object" },
-        });
-
-        const analysis = JSON.parse(
-          response.choices[0]?.message?.content || "{}"
-        );
+          json: true,
+        }, docReferencesSchema, { label: `analyzeDocReferences (${file.path})` });
 
         // Update file with references
         file.references = Array.from(
           new Set([
-            ...(analysis.references || []),
-            ...(analysis.codeFiles || []),
-            ...(analysis.relatedDocs || []),
+            ...analysis.references,
+            ...analysis.codeFiles,
+            ...analysis.relatedDocs,
           ])
         );
       }
@@ -195,47 +192,69 @@ export const analyzeDocStructure = createAction({
     if (!process.env.GITHUB_TOKEN) {
       throw new Error("GITHUB_TOKEN environment variable is required");
     }
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
     if (!parameters || !isAnalyzeDocStructureParams(parameters)) {
       throw new Error("Invalid parameters provided");
     }
 
     const state = context.state as ReviewState;
     const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-    const openai = new Groq({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = getLLMProvider(state.config, "analyzeDocReferences");
 
-    // Get docs repository information
-    const docsRepo = state.docsRepo || {
-      owner: parameters.owner,
-      repo: parameters.repo,
-      branch: "main",
-    };
+    // Get docs repository information, shared with the following actions
+    const docsRepo =
+      state.docsRepo ||
+      (await resolveDocsRepo(
+        octokit,
+        state.config,
+        parameters.owner,
+        parameters.repo
+      ));
+    state.docsRepo = docsRepo;
 
     console.log("\n=== Analyzing Documentation Structure ===");
     console.log("Repository:", `${docsRepo.owner}/${docsRepo.repo}`);
     console.log("Branch:", docsRepo.branch);
     console.log("Docs Directory:", state.config.docsPath);
 
-    // Build initial structure
-    let docStructure = await buildDocStructure(
-      octokit,
-      docsRepo.owner,
-      docsRepo.repo,
-      docsRepo.branch,
-      state.config.docsPath
-    );
+    // The docs tree is listed in one request, its SHA identifies the
+    // structure already analyzed on a previous run
+    const tree = await fetchTree(octokit, docsRepo.owner, docsRepo.repo, docsRepo.branch);
+    const docsDir = docsRoot(state.config.docsPath);
+    const docsSha = docsDir
+      ? tree.entries.find((item) => item.type === "tree" && item.path === docsDir)?.sha
+      : tree.sha;
+    if (!docsSha) {
+      console.log(`⚠️ ${docsDir} does not exist on ${docsRepo.branch}`);
+    }
+    const cacheKey = `${docsRepo.owner}/${docsRepo.repo}:${docsDir}:${docsSha}`;
+    let docStructure = docsSha ? getCachedDocStructure(cacheKey) : undefined;
 
-    // Analyze references between files
-    docStructure = await analyzeDocReferences(
-      openai,
-      docStructure,
-      octokit,
-      docsRepo.owner,
-      docsRepo.repo,
-      docsRepo.branch
-    );
+    if (docStructure) {
+      console.log(`♻️ Documentation unchanged since tree ${docsSha}, reusing its analysis`);
+    } else {
+      // Build initial structure
+      docStructure = await buildDocStructure(
+        octokit,
+        docsRepo.owner,
+        docsRepo.repo,
+        tree.entries,
+        docsDir
+      );
+
+      // Analyze references between files
+      docStructure = await analyzeDocReferences(
+        llm,
+        docStructure,
+        octokit,
+        docsRepo.owner,
+        docsRepo.repo
+      );
+
+      // Pages whose analysis failed are retried on the next run
+      if (docsSha && docStructure.files.every((file) => file.references)) {
+        cacheDocStructure(cacheKey, docStructure);
+      }
+    }
 
     // Store results in state
     state.docStructure = docStructure;
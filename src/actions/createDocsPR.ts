@@ -1,7 +1,21 @@
 import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
-import type { ReviewState } from "../types";
+import type { ReviewState, GeneratedContent } from "../types";
 import { Octokit } from "@octokit/rest";
+import {
+  AGENT_COMMIT_TRAILER,
+  findOpenDocsPullRequest,
+  formatPullRequestReference,
+  getDocsBranchName,
+  isSourceRepository,
+  resolveDocsRepo,
+  upsertBotComment,
+} from "../github";
+import {
+  commitChanges,
+  describeChanges,
+  formatCommitMessage,
+} from "../commitBuilder";
 
 interface CreateDocsPRParams {
   owner: string;
@@ -19,9 +33,120 @@ function isCreateDocsPRParams(params: unknown): params is CreateDocsPRParams {
   );
 }
 
+type FileUpdate = { path: string; content: string; reason: string };
+
+type PullRequest = Awaited<ReturnType<Octokit["pulls"]["get"]>>["data"];
+
+/**
+ * Build a PR comment suggesting the generated documentation, used when the
+ * changes cannot be pushed to the PR branch
+ * @param content - Generated files, navigation update and deletions
+ * @returns The comment body
+ */
+function buildSuggestionComment(content: GeneratedContent): string {
+  const updates: FileUpdate[] = [...content.files];
+  if (content.navigationUpdate) {
+    updates.push({
+      ...content.navigationUpdate,
+      reason: `Update navigation structure (${content.navigationUpdate.changes.length} changes)`,
+    });
+  }
+  // GitHub rejects comments over 65536 characters
+  const maxFileLength = Math.floor(60000 / Math.max(updates.length, 1));
+
+  const sections = updates.map((update) => {
+    const body =
+      update.content.length > maxFileLength
+        ? `${update.content.substring(0, maxFileLength)}\n... (truncated)`
+        : update.content;
+    const language = update.path.endsWith(".json") ? "json" : "mdx";
+    return `<details>
+<summary><code>${update.path}</code> - ${update.reason}</summary>
+
+\`\`\`\`${language}
+${body}
+\`\`\`\`
+
+</details>`;
+  });
+
+  const deletions = (content.deletions || []).map(
+    (file) => `- Delete \`${file.path}\`: ${file.reason}`
+  );
+
+  return `I couldn't push to this PR's branch, so here are the suggested documentation updates. Add them to the PR to keep the docs in sync:
+
+${[...sections, ...deletions].join("\n\n")}`;
+}
+
+/**
+ * Commit the documentation updates directly onto the source PR's head branch.
+ * Falls back to a suggestion comment when the branch can't be pushed to,
+ * e.g. for forks that don't allow edits from maintainers.
+ * @returns true if the changes were pushed
+ */
+async function updateOriginalPR(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pr: PullRequest,
+  content: GeneratedContent,
+  message: string
+): Promise<boolean> {
+  const headRepo = pr.head.repo;
+  const isFork = headRepo?.full_name !== pr.base.repo.full_name;
+
+  if (!headRepo || (isFork && !pr.maintainer_can_modify)) {
+    console.log("Cannot push to the PR branch, posting suggestions instead");
+    await upsertBotComment(
+      octokit,
+      owner,
+      repo,
+      pr.number,
+      buildSuggestionComment(content)
+    );
+    return false;
+  }
+
+  try {
+    console.log(`Committing to ${headRepo.full_name}:${pr.head.ref}`);
+    // Not forced: if the author pushed in the meantime the update is rejected
+    await commitChanges(octokit, content, {
+      owner: headRepo.owner.login,
+      repo: headRepo.name,
+      branch: pr.head.ref,
+      message: `${message}\n\n${AGENT_COMMIT_TRAILER}`,
+    });
+  } catch (error: any) {
+    if (![403, 404, 422].includes(error.status)) {
+      throw error;
+    }
+    console.log("Push to the PR branch was rejected, posting suggestions instead");
+    await upsertBotComment(
+      octokit,
+      owner,
+      repo,
+      pr.number,
+      buildSuggestionComment(content)
+    );
+    return false;
+  }
+
+  await upsertBotComment(
+    octokit,
+    owner,
+    repo,
+    pr.number,
+    `I've pushed documentation updates to this PR:
+${describeChanges(content)}`
+  );
+  return true;
+}
+
 export const createDocsPR = createAction({
   id: "createDocsPR",
-  description: "Creates a new pull request with documentation updates",
+  description:
+    "Creates a new pull request with documentation updates, or commits them to the original PR",
   parameters: {
     type: "object",
     properties: {
@@ -54,11 +179,12 @@ export const createDocsPR = createAction({
       throw new Error("Update plan must be created before creating PR");
     }
 
-    const { files, navigationUpdate } = state.generatedContent;
+    const { files, navigationUpdate, deletions = [] } = state.generatedContent;
     console.log("Files to process:", files.length);
     console.log("Navigation update:", navigationUpdate ? "Yes" : "No");
+    console.log("Files to delete:", deletions.length);
 
-    if (files.length === 0 && !navigationUpdate) {
+    if (files.length === 0 && !navigationUpdate && deletions.length === 0) {
       console.log("No updates to process, skipping PR creation");
       return context;
     }
@@ -75,91 +201,100 @@ export const createDocsPR = createAction({
     });
     console.log("Original PR found:", pr.title);
 
-    // Create a new branch for documentation updates
-    const timestamp = new Date().getTime();
-    const newBranch = `${state.config.prConfig.branchPrefix || "docs/update"}-${pr.head.ref}-${timestamp}`;
-    console.log("Creating new branch:", newBranch);
-
-    // Get the default branch SHA
-    console.log("Fetching repository details...");
-    const { data: repo } = await octokit.repos.get({
-      owner: parameters.owner,
-      repo: parameters.repo,
-    });
-    console.log("Default branch:", repo.default_branch);
+    const docsRepo =
+      state.docsRepo ||
+      (await resolveDocsRepo(
+        octokit,
+        state.config,
+        parameters.owner,
+        parameters.repo
+      ));
+    const isSeparateDocsRepo = !isSourceRepository(
+      docsRepo,
+      parameters.owner,
+      parameters.repo
+    );
+    const prReference = formatPullRequestReference(
+      docsRepo,
+      parameters.owner,
+      parameters.repo,
+      parameters.pull_number
+    );
 
-    console.log("Getting default branch SHA...");
-    const { data: ref } = await octokit.git.getRef({
-      owner: parameters.owner,
-      repo: parameters.repo,
-      ref: `heads/${repo.default_branch}`,
-    });
-    console.log("Default branch SHA:", ref.object.sha);
+    const commitMessage = formatCommitMessage(
+      state.config.prConfig.commitMessageTemplate,
+      {
+        summary: `Update documentation for ${pr.title} (${prReference})`,
+        changes: describeChanges(state.generatedContent),
+        prTitle: pr.title,
+        prNumber: pr.number,
+        fileCount:
+          files.length + deletions.length + (navigationUpdate ? 1 : 0),
+      }
+    );
 
-    // Create new branch
-    console.log("Creating new branch from SHA...");
-    await octokit.git.createRef({
-      owner: parameters.owner,
-      repo: parameters.repo,
-      ref: `refs/heads/${newBranch}`,
-      sha: ref.object.sha,
-    });
-    console.log("New branch created successfully");
-
-    // Process all file updates
-    console.log("\n=== Processing Documentation Updates ===");
-    const allUpdates = [...files];
-    if (navigationUpdate) {
-      allUpdates.push({
-        ...navigationUpdate,
-        type: "update",
-        reason: `Update navigation structure (${navigationUpdate.changes.length} changes)`,
-      });
+    // Docs in another repository can't ship in the source PR
+    if (state.config.prConfig.updateOriginalPr && isSeparateDocsRepo) {
+      console.log(
+        "Docs live in a separate repository, opening a docs PR instead of updating the original PR"
+      );
     }
 
-    for (const update of allUpdates) {
-      console.log("\nProcessing update for file:", update.path);
-
-      let currentFile;
-      try {
-        // Try to get the current file content
-        console.log("Checking if file exists...");
-        const { data: fileData } = await octokit.repos.getContent({
-          owner: parameters.owner,
-          repo: parameters.repo,
-          path: update.path,
-          ref: newBranch,
-        });
-        if ("content" in fileData) {
-          currentFile = fileData;
-        }
-      } catch (error: any) {
-        if (error.status !== 404) {
-          console.error("Error checking file:", error);
-          throw error;
-        }
-        // 404 is expected for new files
-        console.log("File doesn't exist - will create new file");
-      }
-
-      // Create or update the file
+    if (state.config.prConfig.updateOriginalPr && !isSeparateDocsRepo) {
+      console.log("\n=== Updating Original PR ===");
+      const pushed = await updateOriginalPR(
+        octokit,
+        parameters.owner,
+        parameters.repo,
+        pr,
+        state.generatedContent,
+        commitMessage
+      );
+      state.pullRequestUrl = pr.html_url;
       console.log(
-        currentFile ? "Updating existing file..." : "Creating new file..."
+        pushed
+          ? "Documentation committed to the original PR"
+          : "Documentation suggested in a comment on the original PR"
       );
-      await octokit.repos.createOrUpdateFileContents({
-        owner: parameters.owner,
-        repo: parameters.repo,
-        path: update.path,
-        message: update.reason,
-        content: Buffer.from(update.content).toString("base64"),
-        branch: newBranch,
-        ...(currentFile && "sha" in currentFile
-          ? { sha: currentFile.sha }
-          : {}),
-      });
-      console.log("File operation completed successfully");
+      console.log("\n=== CreateDocsPR: Completed Successfully ===");
+      return context;
     }
 
+    // One docs branch per source PR, reused on every run
+    const newBranch = getDocsBranchName(
+      state.config,
+      docsRepo,
+      parameters.owner,
+      parameters.repo,
+      parameters.pull_number
+    );
+    console.log(`Docs branch: ${docsRepo.owner}/${docsRepo.repo}:${newBranch}`);
+
+    console.log("Getting docs base branch SHA...");
+    const { data: ref } = await octokit.git.getRef({
+      owner: docsRepo.owner,
+      repo: docsRepo.repo,
+      ref: `heads/${docsRepo.branch}`,
+    });
+    console.log(`${docsRepo.branch} SHA:`, ref.object.sha);
+
+    // Commit on top of the docs base branch and move the docs branch in one
+    // step. Forced, so each run's changes replace the previous ones.
+    console.log("\n=== Committing Documentation Updates ===");
+    const commit = await commitChanges(octokit, state.generatedContent, {
+      owner: docsRepo.owner,
+      repo: docsRepo.repo,
+      branch: newBranch,
+      message: commitMessage,
+      parentSha: ref.object.sha,
+      force: true,
+    });
+    console.log(
+      commit.createdBranch
+        ? "New branch created successfully"
+        : "Existing branch updated"
+    );
+
     // Create pull request
     console.log("\n=== Creating Pull Request ===");
     const prTitle = state.config.prConfig.titleTemplate
@@ -171,6 +306,7 @@ export const createDocsPR = createAction({
     const prBody = state.config.prConfig.bodyTemplate
       ? state.config.prConfig.bodyTemplate
           .replace("{prNumber}", parameters.pull_number.toString())
+          .replace("{prReference}", prReference)
           .replace(
             "{changes}",
             state.updatePlan.updates
@@ -179,44 +315,71 @@ export const createDocsPR = createAction({
               )
               .join("\n")
           )
-      : `This PR updates documentation to reflect changes in #${parameters.pull_number}
+      : `This PR updates documentation to reflect changes in ${prReference}
 
 ## Changes
 ${state.updatePlan.updates.map((update) => `- ${update.reason} (${update.priority} priority)`).join("\n")}
 
 This PR was automatically generated by the SpinAI documentation maintainer.`;
 
-    const { data: docsPR } = await octokit.pulls.create({
-      owner: parameters.owner,
-      repo: parameters.repo,
-      title: prTitle,
-      body: prBody,
-      head: newBranch,
-      base: repo.default_branch,
-    });
-    console.log("Pull request created:", docsPR.html_url);
-
-    // Add labels if configured
-    if (state.config.prConfig.labels?.length) {
-      console.log("Adding labels to PR...");
-      await octokit.issues.addLabels({
-        owner: parameters.owner,
-        repo: parameters.repo,
-        issue_number: docsPR.number,
-        labels: state.config.prConfig.labels,
-      });
-      console.log("Labels added successfully");
+    const existingPR = await findOpenDocsPullRequest(
+      octokit,
+      docsRepo.owner,
+      docsRepo.repo,
+      newBranch
+    );
+
+    let docsPR;
+    if (existingPR) {
+      ({ data: docsPR } = await octokit.pulls.update({
+        owner: docsRepo.owner,
+        repo: docsRepo.repo,
+        pull_number: existingPR.number,
+        title: prTitle,
+        body: prBody,
+      }));
+      console.log("Pull request updated:", docsPR.html_url);
+    } else {
+      ({ data: docsPR } = await octokit.pulls.create({
+        owner: docsRepo.owner,
+        repo: docsRepo.repo,
+        title: prTitle,
+        body: prBody,
+        head: newBranch,
+        base: docsRepo.branch,
+      }));
+      console.log("Pull request created:", docsPR.html_url);
+
+      // Add labels if configured
+      if (state.config.prConfig.labels?.length) {
+        console.log("Adding labels to PR...");
+        await octokit.issues.addLabels({
+          owner: docsRepo.owner,
+          repo: docsRepo.repo,
+          issue_number: docsPR.number,
+          labels: state.config.prConfig.labels,
+        });
+        console.log("Labels added successfully");
+      }
     }
+    state.pullRequestUrl = docsPR.html_url;
 
-    // Add a comment to the original PR
-    console.log("Adding comment to original PR...");
-    await octokit.issues.createComment({
-      owner: parameters.owner,
-      repo: parameters.repo,
-      issue_number: parameters.pull_number,
-      body: `I've created a documentation update PR: #${docsPR.number}`,
-    });
-    console.log("Comment added successfully");
+    // Add or refresh the comment on the original PR, linking back across
+    // repositories when the docs live elsewhere
+    const docsPRReference = isSeparateDocsRepo
+      ? `${docsRepo.owner}/${docsRepo.repo}#${docsPR.number}`
+      : `#${docsPR.number}`;
+    console.log("Updating comment on original PR...");
+    await upsertBotComment(
+      octokit,
+      parameters.owner,
+      parameters.repo,
+      parameters.pull_number,
+      `I've ${existingPR ? "updated" : "created"} a documentation update PR: ${docsPRReference}
+
+_Last updated for ${pr.head.sha.substring(0, 7)}._`
+    );
+    console.log("Comment updated successfully");
 
     console.log("\n=== CreateDocsPR: Completed Successfully ===");
     return context;
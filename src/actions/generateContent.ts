@@ -6,9 +6,15 @@ import type {
   GeneratedContent,
   DocStructure,
   CodeAnalysis,
+  BreakingChange,
 } from "../types";
 import { Octokit } from "@octokit/rest";
-import Groq from "groq-sdk";
+import { getLLMProvider } from "../llm";
+import type { LLMProvider } from "../llm";
+import { describeSymbolChanges } from "../analyzers";
+import { describeBreakingChanges } from "../breakingChanges";
+import { docsPageId } from "../docsPaths";
+import { resolveDocsRepo } from "../github";
 
 interface GenerateContentParams {
   owner: string;
@@ -27,7 +33,7 @@ function isGenerateContentParams(
 }
 
 async function generateFileContent(
-  openai: Groq,
+  llm: LLMProvider,
   update: PlannedDocUpdate,
   docStructure: DocStructure,
   codeAnalysis: CodeAnalysis,
@@ -35,8 +41,7 @@ async function generateFileContent(
   templateContent: string | null,
   config: ReviewState["config"]
 ): Promise<string> {
-  const response = await openai.chat.completions.create({
-    model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
+  const content = await llm.complete({
     messages: [
       {
         role: "system" as const,
@@ -66,11 +71,17 @@ Content Guidelines:
   - Parameter descriptions
   - Return types
   - Usage examples
-${config.llmConfig?.styleGuide ? `\nStyle Guide:\n${config.llmConfig.styleGuide}` : ""}`,
+${update.migrationGuide ? `
+Migration Guide:
+- This page is the migration guide, write one section per breaking change
+- Explain what changed and the steps to migrate
+- Show the code before and after the change in separate code blocks, based on the snippets given
+- Keep the existing sections of the guide, add the new ones before them
+` : ""}${config.llmConfig?.styleGuide ? `\nStyle Guide:\n${config.llmConfig.styleGuide}` : ""}`,
       },
       {
         role: "user" as const,
-        content: `Task: ${update.type === "create" ? "Create new" : "Update"} documentation file at ${update.path}
+        content: `Task: ${update.type === "create" ? "Create new" : update.type === "move" ? `Move (from ${update.previousPath}) and update` : "Update"} documentation file at ${update.path}
 
 Context:
 ${update.reason}
@@ -82,7 +93,7 @@ ${update.sourceFiles
               return `
 File: ${file}
 Type: ${change?.type || "unknown"}
-Patch:
+${change?.symbols?.length ? `Symbol Changes:\n${describeSymbolChanges(change.symbols)}\n` : ""}Patch:
 \`\`\`diff
 ${change?.patch || ""}
 \`\`\`
@@ -90,6 +101,7 @@ ${change?.patch || ""}
             })
             .join("\n")}
 
+${update.breakingChanges?.length ? `Breaking Changes:\n${describeBreakingChanges(update.breakingChanges)}\n` : ""}
 ${templateContent ? `Template to follow:\n${templateContent}\n` : ""}
 ${existingContent ? `Current content to update:\n${existingContent}\n` : ""}
 
@@ -109,10 +121,9 @@ Please provide the complete MDX content for this documentation file.
 Remember: Return the content directly, starting with frontmatter (---). Do not wrap in backticks.`,
       },
     ],
-    temperature: config.llmConfig?.temperature || 0.3,
+    temperature: config.llmConfig?.temperature ?? 0.3,
   });
 
-  const content = response.choices[0]?.message?.content;
   if (!content) {
     throw new Error("Failed to generate content");
   }
@@ -121,6 +132,79 @@ Remember: Return the content directly, starting with frontmatter (---). Do not w
   return content.replace(/^```mdx?\n|```$/g, "").trim();
 }
 
+// Marks the notice added to deprecated pages, so it is only added once
+const DEPRECATION_MARKER = "{/* docs-updater:deprecated */}";
+
+/**
+ * Add a deprecation callout to the top of a page, after its frontmatter
+ * @param content - Current page content
+ * @param reason - Why the page is deprecated
+ * @returns The page with the callout
+ */
+function addDeprecationNotice(content: string, reason: string): string {
+  if (content.includes(DEPRECATION_MARKER)) {
+    return content;
+  }
+  const notice = `${DEPRECATION_MARKER}
+<Warning>
+  This page is deprecated. ${reason}.
+</Warning>
+`;
+  const frontmatter = content.match(/^---\n[\s\S]*?\n---\n/);
+  return frontmatter
+    ? `${frontmatter[0]}\n${notice}${content.slice(frontmatter[0].length)}`
+    : `${notice}\n${content}`;
+}
+
+// Marks the callout added to pages with breaking changes, so a later run
+// replaces it instead of adding another one
+const BREAKING_CHANGE_MARKER = "{/* docs-updater:breaking-changes */}";
+
+/**
+ * Add a callout listing the breaking changes of the documented code to the
+ * top of a page, after its frontmatter
+ * @param content - Generated page content
+ * @param changes - Breaking changes affecting the page
+ * @param guideLink - Link to the migration guide, if one is planned
+ * @returns The page with the callout
+ */
+function addBreakingChangeCallout(
+  content: string,
+  changes: BreakingChange[],
+  guideLink?: string
+): string {
+  const callout = `${BREAKING_CHANGE_MARKER}
+<Warning>
+  This page documents code with breaking changes:
+${changes.map((change) => `  - ${change.description}`).join("\n")}
+${guideLink ? `\n  See the [migration guide](${guideLink}) to update your code.\n` : ""}</Warning>
+`;
+  const start = content.indexOf(BREAKING_CHANGE_MARKER);
+  const end = content.indexOf("</Warning>\n", start);
+  if (start !== -1 && end !== -1) {
+    return content.slice(0, start) + callout + content.slice(end + "</Warning>\n".length);
+  }
+  const frontmatter = content.match(/^---\n[\s\S]*?\n---\n/);
+  return frontmatter
+    ? `${frontmatter[0]}\n${callout}${content.slice(frontmatter[0].length)}`
+    : `${callout}\n${content}`;
+}
+
+/**
+ * Render the page of an API endpoint. Mintlify builds the page from the
+ * OpenAPI operation named in the frontmatter.
+ * @param operation - Method and path, e.g. "GET /users/{id}"
+ * @param title - Page title, the operation's summary if it has one
+ * @returns The page content
+ */
+function endpointPage(operation: string, title?: string): string {
+  return `---
+title: ${JSON.stringify(title || operation)}
+openapi: ${JSON.stringify(operation)}
+---
+`;
+}
+
 async function findTemplateFile(
   docStructure: DocStructure,
   update: PlannedDocUpdate
@@ -156,9 +240,6 @@ export const generateContent = createAction({
     if (!process.env.GITHUB_TOKEN) {
       throw new Error("GITHUB_TOKEN environment variable is required");
     }
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
     if (!parameters || !isGenerateContentParams(parameters)) {
       throw new Error("Invalid parameters provided");
     }
@@ -180,31 +261,62 @@ export const generateContent = createAction({
     }
 
     const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-    const openai = new Groq({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = getLLMProvider(state.config, "generateFileContent");
+    const docsRepo =
+      state.docsRepo ||
+      (await resolveDocsRepo(
+        octokit,
+        state.config,
+        parameters.owner,
+        parameters.repo
+      ));
+    state.docsRepo = docsRepo;
 
     console.log("\n=== Generating Documentation Content ===");
 
     const generatedContent: GeneratedContent = {
       files: [],
+      deletions: [],
+      redirects: [],
     };
 
+    // Pages with breaking changes link to the migration guide
+    const guide = state.updatePlan.updates.find((update) => update.migrationGuide);
+
     // Process each planned update
     for (const update of state.updatePlan.updates) {
       console.log(`\nProcessing: ${update.path}`);
       console.log(`Type: ${update.type}`);
       console.log(`Priority: ${update.priority}`);
 
+      // Endpoint pages are rendered by Mintlify from the spec
+      if (update.openapiOperation) {
+        if (update.type === "delete") {
+          generatedContent.deletions?.push({ path: update.path, reason: update.reason });
+          console.log("Endpoint page deleted");
+        } else if (update.type === "create") {
+          generatedContent.files.push({
+            path: update.path,
+            content: endpointPage(update.openapiOperation, update.suggestedContent?.title),
+            type: "create",
+            reason: update.reason,
+          });
+          console.log("Endpoint page created");
+        }
+        continue;
+      }
+
       let existingContent: string | null = null;
       let templateContent: string | null = null;
 
-      // Get existing content if updating
-      if (update.type === "update") {
+      // Get existing content if updating, moving or deprecating
+      if (update.type !== "create") {
         try {
           const { data: fileData } = await octokit.repos.getContent({
-            owner: state.docsRepo?.owner || parameters.owner,
-            repo: state.docsRepo?.repo || parameters.repo,
-            path: update.path,
-            ref: state.docsRepo?.branch || "main",
+            owner: docsRepo.owner,
+            repo: docsRepo.repo,
+            path: update.previousPath || update.path,
+            ref: docsRepo.branch,
           });
 
           if ("content" in fileData) {
@@ -224,10 +336,10 @@ export const generateContent = createAction({
         if (templatePath) {
           try {
             const { data: fileData } = await octokit.repos.getContent({
-              owner: state.docsRepo?.owner || parameters.owner,
-              repo: state.docsRepo?.repo || parameters.repo,
+              owner: docsRepo.owner,
+              repo: docsRepo.repo,
               path: templatePath,
-              ref: state.docsRepo?.branch || "main",
+              ref: docsRepo.branch,
             });
 
             if ("content" in fileData) {
@@ -243,9 +355,25 @@ export const generateContent = createAction({
         }
       }
 
+      // Deprecated pages only get a notice, their content stays as it is
+      if (update.type === "deprecate") {
+        if (!existingContent) {
+          console.log("Page to deprecate not found, skipping");
+          continue;
+        }
+        generatedContent.files.push({
+          path: update.path,
+          content: addDeprecationNotice(existingContent, update.reason),
+          type: "update",
+          reason: update.reason,
+        });
+        console.log("Deprecation notice added");
+        continue;
+      }
+
       // Generate content
-      const content = await generateFileContent(
-        openai,
+      const generated = await generateFileContent(
+        llm,
         update,
         state.docStructure,
         state.codeAnalysis,
@@ -253,14 +381,34 @@ export const generateContent = createAction({
         templateContent,
         state.config
       );
+      const content =
+        update.breakingChanges?.length && !update.migrationGuide
+          ? addBreakingChangeCallout(
+              generated,
+              update.breakingChanges,
+              guide && `/${docsPageId(guide.path, state.config.docsPath)}`
+            )
+          : generated;
 
       generatedContent.files.push({
         path: update.path,
         content,
-        type: update.type,
+        type: update.type === "update" ? "update" : "create",
         reason: update.reason,
       });
 
+      // A moved page replaces the old one, whose URL is redirected
+      if (update.type === "move" && update.previousPath) {
+        generatedContent.deletions?.push({
+          path: update.previousPath,
+          reason: `Moved to ${update.path}`,
+        });
+        generatedContent.redirects?.push({
+          from: update.previousPath,
+          to: update.path,
+        });
+      }
+
       console.log("Content generated successfully");
     }
 
@@ -269,6 +417,7 @@ export const generateContent = createAction({
 
     console.log("\n=== Content Generation Summary ===");
     console.log("Files generated:", generatedContent.files.length);
+    console.log("Files moved:", generatedContent.redirects?.length || 0);
     generatedContent.files.forEach((file) => {
       console.log(
         `\n${file.type === "create" ? "Created" : "Updated"}: ${file.path}`
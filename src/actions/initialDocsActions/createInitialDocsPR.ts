@@ -1,7 +1,8 @@
 import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
-import type { ReviewState, GeneratedContent } from "./types";
+import type { ReviewState } from "./types";
 import { Octokit } from "@octokit/rest";
+import { commitChanges, describeChanges, formatCommitMessage } from "../../commitBuilder";
 import path from "path";
 import { randomUUID } from "crypto";
 
@@ -49,20 +50,11 @@ export const createInitialDocsPR = createAction({
 
         console.log(`📂 Preparing to commit ${state.generatedContent.files.length} files...`);
 
-        const baseBranch = state.config.docsRepo?.branch || "main";
+        const baseBranch =
+            state.config.docsBranch ||
+            (await octokit.repos.get({ owner, repo })).data.default_branch;
         const newBranch = "docs/init_" + randomUUID().replace(/-/g, "").substring(0, 8);
 
-        let branchExists = false;
-        try {
-            // Check if the branch already exists
-            await octokit.repos.getBranch({ owner, repo, branch: newBranch });
-            branchExists = true;
-            console.log(`✅ Branch ${newBranch} already exists, using existing branch.`);
-        } catch (error) {
-            console.log(`⚡ Branch ${newBranch} does not exist, creating it.`);
-        }
-
-
         // Fetch the latest commit SHA from the base branch
         const { data: baseBranchData } = await octokit.repos.getBranch({
             owner,
@@ -71,70 +63,29 @@ export const createInitialDocsPR = createAction({
         });
         const baseSha = baseBranchData.commit.sha;
 
-        if (!branchExists) {
-            // Create the new branch if it does not exist
-            await octokit.git.createRef({
-                owner,
-                repo,
-                ref: `refs/heads/${newBranch}`,
-                sha: baseSha,
-            });
-            console.log(`🔀 Created new branch: ${newBranch}`);
-        }
+        // Normalize for GitHub path format
+        const files = state.generatedContent.files.map((file) => ({
+            ...file,
+            path: path.normalize(file.path).replace(/\\/g, "/"),
+        }));
+        const createdFiles = files.map((file) => file.path);
+        const changes = { ...state.generatedContent, files };
 
-        // Commit each file separately
-        const createdFiles = [];
-        for (const file of state.generatedContent.files) {
-            const filePath = path.normalize(file.path).replace(/\\/g, "/"); // Normalize for GitHub path format
-            const fileContent = Buffer.from(file.content, "utf-8").toString("base64");
-
-            console.log(`📄 Processing: ${filePath}`);
-
-            // Create directories by ensuring each part of the path exists
-            const dirPath = path.dirname(filePath);
-            if (dirPath !== "docs") {
-                try {
-                    await octokit.repos.createOrUpdateFileContents({
-                        owner,
-                        repo,
-                        path: `${dirPath}/.keep`, // Create a .keep file to ensure directory existence
-                        message: `📁 Ensure directory exists: ${dirPath}`,
-                        content: Buffer.from("").toString("base64"),
-                        branch: newBranch,
-                    });
-                    console.log(`📁 Created directory: ${dirPath}`);
-                } catch (error) {
-                    console.log(`⚠️ Directory ${dirPath} already exists or could not be created.`);
-                }
-            }
-
-            // Get SHA if the file exists (to update instead of create)
-            let existingSha: string | undefined;
-            try {
-                const { data } = await octokit.repos.getContent({
-                    owner,
-                    repo,
-                    path: filePath,
-                    ref: newBranch,
-                });
-                existingSha = (data as any).sha;
-            } catch {
-                existingSha = undefined; // File doesn't exist yet
-            }
-
-            // Create or update the file
-            await octokit.repos.createOrUpdateFileContents({
-                owner,
-                repo,
-                path: filePath,
-                message: `📝 Add initial documentation for ${path.basename(filePath)}`,
-                content: fileContent,
-                branch: newBranch,
-                sha: existingSha, // Required if updating an existing file
-            });
-
-            createdFiles.push(filePath);
-        }
+        // Commit every file at once, creating the branch on top of the base branch
+        const commit = await commitChanges(octokit, changes, {
+            owner,
+            repo,
+            branch: newBranch,
+            parentSha: baseSha,
+            message: formatCommitMessage(state.config.prConfig.commitMessageTemplate, {
+                summary: "Add initial documentation",
+                changes: describeChanges(changes),
+                prTitle: "Initial Project Documentation",
+                prNumber: "",
+                fileCount: createdFiles.length,
+            }),
+        });
+        console.log(`🔀 ${commit.createdBranch ? "Created" : "Updated"} branch: ${newBranch}`);
 
         console.log(`✅ Committed ${createdFiles.length} files.`);
 
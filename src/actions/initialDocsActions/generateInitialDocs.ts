@@ -2,7 +2,7 @@ import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
 import type { ReviewState, GeneratedContent, PlannedDocUpdate } from "./types";
 import { Octokit } from "@octokit/rest";
-import Groq from "groq-sdk";
+import { getLLMProvider } from "../../llm";
 
 interface GenerateInitialDocsParams {
     owner: string;
@@ -34,10 +34,6 @@ export const generateInitialDocs = createAction({
             throw new Error("Invalid parameters provided for generateInitialDocs");
         }
         const { owner, repo } = parameters;
-
-        if (!process.env.OPENAI_API_KEY) {
-            throw new Error("OPENAI_API_KEY environment variable is required");
-        }
         if (!process.env.GITHUB_TOKEN) {
             throw new Error("GITHUB_TOKEN environment variable is required");
         }
@@ -70,8 +66,8 @@ export const generateInitialDocs = createAction({
             }
         }
 
-        const groqClient = new Groq({ apiKey: process.env.OPENAI_API_KEY });
         const state = context.state as ReviewState;
+        const llm = getLLMProvider(state.config, "generateInitialDocs");
 
         if (!state.updatePlan || state.updatePlan.updates.length === 0) {
             throw new Error("No planned documentation updates found. Run planInitialDocs first.");
@@ -140,8 +136,7 @@ ${docTemplate}
 \`\`\``;
 
             try {
-                const response = await groqClient.chat.completions.create({
-                    model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
+                const content = await llm.complete({
                     messages: [
                         {
                             role: "system",
@@ -155,7 +150,6 @@ ${docTemplate}
                     temperature: 0.3,
                 });
 
-                const content = response.choices[0]?.message?.content;
                 if (!content) {
                     throw new Error(`Failed to generate documentation for ${update.sourceFiles[0]}`);
                 }
@@ -189,7 +183,6 @@ ${docTemplate}
                 path: cachePath,
                 message: "Update documentation generation cache",
                 content: encodedCache,
-                branch: "main", // Adjust if necessary
                 sha: cacheSha,
             });
             console.log("📂 Persistent cache updated successfully.");
@@ -2,7 +2,7 @@ import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
 import { Octokit } from "@octokit/rest";
 import { ReviewState } from "./types";
-import micromatch from "micromatch"; // Utility for pattern matching
+import { matchFile, mayContainImportant } from "../../fileMatcher";
 
 interface SearchImportantFilesParams {
     owner: string;
@@ -47,7 +47,7 @@ export const searchImportantFiles = createAction({
 
         const COUNT_LIMIT = 30;
 
-        async function getFilesRecursively(dir: string, importantPatterns: string[], ignorePatterns: string[], count: number = 0): Promise<string[]> {
+        async function getFilesRecursively(dir: string, matchRules: ReviewState["config"]["matchRules"], count: number = 0): Promise<string[]> {
             try {
                 if (count >= COUNT_LIMIT) {
                     return [];
@@ -63,15 +63,15 @@ export const searchImportantFiles = createAction({
                 for (const item of response.data) {
                     const fullPath = dir ? `${dir}/${item.name}` : item.name; // Preserve full path structure
 
-                    if (item.type === "file" && micromatch.isMatch(fullPath, importantPatterns) && !micromatch.isMatch(fullPath, ignorePatterns)) {
+                    if (item.type === "file" && matchFile(fullPath, matchRules).important) {
                         files.push(fullPath);
                         count++;
 
                         if (count >= COUNT_LIMIT) {
                             break;
                         }
-                    } else if (item.type === "dir" && micromatch.isMatch(fullPath, importantPatterns) && !micromatch.isMatch(fullPath, ignorePatterns)) {
-                        const subFiles = await getFilesRecursively(fullPath, importantPatterns, ignorePatterns, count);
+                    } else if (item.type === "dir" && mayContainImportant(fullPath, matchRules)) {
+                        const subFiles = await getFilesRecursively(fullPath, matchRules, count);
                         files = files.concat(subFiles);
                         count += subFiles.length;
                     }
@@ -102,9 +102,7 @@ export const searchImportantFiles = createAction({
             }
 
             // ignore directories
-            const importantPatterns = state.config.matchRules.importantPatterns;
-            const ignorePatterns = state.config.matchRules.ignorePatterns;
-            const importantFiles = await getFilesRecursively(path, importantPatterns, ignorePatterns);
+            const importantFiles = await getFilesRecursively(path, state.config.matchRules);
 
             console.log(`Found important files: ${importantFiles.length}`);
 
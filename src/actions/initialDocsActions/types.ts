@@ -8,6 +8,8 @@ export interface ReviewState {
     owner: string;
     repo: string;
     config: DocUpdateConfig;
+    // Configuration sent with the request, layered over the repository's config file
+    userConfig?: Partial<DocConfig>;
 
     // searchImportantFiles
     importantFiles?: string[];
@@ -17,6 +19,12 @@ export interface ReviewState {
 
     // generateInitialDocs
     generatedContent?: GeneratedContent;
+
+    // createInitialDocsPR
+    pullRequestUrl?: string;
+
+    // Set when the run is executed from the job queue
+    jobId?: string;
 }
 
 export interface UpdatePlan {
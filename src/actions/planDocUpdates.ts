@@ -1,12 +1,22 @@
 import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
 import type {
+  PlannedDocUpdate,
   ReviewState,
   CodeAnalysis,
+  CodeChange,
   DocStructure,
   UpdatePlan,
 } from "../types";
-import Groq from "groq-sdk";
+import { completeStructured, getLLMProvider } from "../llm";
+import type { LLMProvider } from "../llm";
+import * as schema from "../llm/schema";
+import { describeChangeType } from "../diffChunking";
+import { describeSymbolChanges } from "../analyzers";
+import { describeBreakingChanges } from "../breakingChanges";
+import { docsPageId, docsRoot } from "../docsPaths";
+import { isSourceRepository } from "../github";
+import { OPENAPI_FILE_PATTERN, describeOperation } from "../analyzers/openapi";
 
 interface PlanDocUpdatesParams {
   owner: string;
@@ -24,15 +34,73 @@ function isPlanDocUpdatesParams(
   );
 }
 
+const updatePlanSchema = schema.object({
+  summary: schema.string({ nonEmpty: true }),
+  updates: schema.array(
+    schema.object({
+      path: schema.string({ nonEmpty: true }),
+      type: schema.oneOf(["create", "update"] as const),
+      reason: schema.string({ nonEmpty: true }),
+      priority: schema.oneOf(["high", "medium", "low"] as const),
+      sourceFiles: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+      relatedDocs: schema.optional(schema.array(schema.string({ nonEmpty: true })), []),
+      suggestedContent: schema.optional(
+        schema.object({
+          title: schema.optional(schema.string()),
+          sections: schema.optional(schema.array(schema.string())),
+          examples: schema.optional(schema.array(schema.string())),
+        })
+      ),
+    })
+  ),
+  navigationChanges: schema.optional(
+    schema.array(
+      schema.object({
+        group: schema.string({ nonEmpty: true }),
+        changes: schema.array(
+          schema.object({
+            type: schema.oneOf(["add", "move", "remove"] as const),
+            page: schema.string({ nonEmpty: true }),
+          })
+        ),
+      })
+    ),
+    []
+  ),
+});
+
+// Related files of a widely used module can be many
+const MAX_LISTED_FILES = 20;
+
+function listFiles(files: string[]): string {
+  if (!files.length) {
+    return "none";
+  }
+  const listed = files.slice(0, MAX_LISTED_FILES).join(", ");
+  return files.length > MAX_LISTED_FILES
+    ? `${listed} and ${files.length - MAX_LISTED_FILES} more`
+    : listed;
+}
+
+// Pages referencing any of the files
+function docsReferencing(files: string[], docStructure: DocStructure): string[] {
+  return docStructure.files
+    .filter((doc) =>
+      doc.references?.some((reference) =>
+        files.some((file) => referencesFile(reference, file))
+      )
+    )
+    .map((doc) => doc.path);
+}
+
 async function generateUpdatePlan(
-  openai: Groq,
+  llm: LLMProvider,
   codeAnalysis: CodeAnalysis,
   docStructure: DocStructure,
   config: ReviewState["config"]
 ): Promise<UpdatePlan> {
   // Use LLM to analyze changes and plan documentation updates
-  const response = await openai.chat.completions.create({
-    model: process.env.OPENAI_MODEL || "llama-3.3-70b-versatile",
+  const plan = await completeStructured(llm, {
     messages: [
       {
         role: "system" as const,
@@ -49,8 +117,12 @@ Consider these factors when planning:
 - New features or APIs need comprehensive documentation
 - Significant changes to existing features need doc updates
 - Related documents may need cross-reference updates
+- Related files import or are imported by a changed file; their docs may describe behavior that changed with it
 - Overview/index files need updates for significant changes
 - Navigation structure should reflect content organization
+- Symbol changes name the exact function, class, controller, model, route or notification that changed: target the pages documenting them
+- Changes to important files (isImportant) are the project's documented surface: plan their updates first and at a higher priority than changes to other files
+- Mapped Docs are pages the project maps to a changed file: they are always updated, don't plan them again; only plan other pages that need changes beyond them
 
 Return a detailed plan as a JSON object with this structure:
 {
@@ -86,16 +158,22 @@ ${codeAnalysis.summary}
 
 Impacted Areas: ${codeAnalysis.impactedAreas.join(", ")}
 Significant Changes: ${codeAnalysis.significantChanges}
-
+${codeAnalysis.breakingChanges.length ? `\nBreaking Changes (a migration guide is planned for them separately):\n${describeBreakingChanges(codeAnalysis.breakingChanges)}\n` : ""}
 Changed Files:
-${codeAnalysis.changes
+${[...codeAnalysis.changes]
+            .sort(
+              (a, b) =>
+                Number(b.significance.isImportant) - Number(a.significance.isImportant)
+            )
             .map(
               (change) => `
-- ${change.file} (${change.type})
+- ${change.file} (${describeChangeType(change)})
   Category: ${change.category}
   Significance: ${JSON.stringify(change.significance)}
-  Related Files: ${change.relatedFiles?.join(", ") || "none"}
-`
+  Related Files: ${listFiles(change.relatedFiles || [])}
+  Docs of Related Files: ${listFiles(docsReferencing(change.relatedFiles || [], docStructure))}
+  Mapped Docs: ${listFiles(change.mappedDocs || [])}
+${change.symbols?.length ? `  Symbol Changes:\n${describeSymbolChanges(change.symbols)}\n` : ""}`
             )
             .join("\n")}
 
@@ -110,30 +188,397 @@ ${JSON.stringify(docStructure.navigation, null, 2)}
 
 Configuration:
 Doc Extensions: ${config.matchRules?.docExtensions?.join(", ") || ".mdx"}
-Path Mappings: ${JSON.stringify(config.matchRules?.pathMappings || {})}
 
 Please analyze this information and provide a detailed plan for documentation updates.`,
       },
     ],
     temperature: 0.1,
-    response_format: { type: "json_object" },
+    json: true,
+  }, updatePlanSchema, { label: "generateUpdatePlan" });
+
+  return plan;
+}
+
+// File name without directory and extension
+function baseName(path: string): string {
+  return (path.split("/").pop() || path).replace(/\.[^.]+$/, "");
+}
+
+// References extracted by the LLM may be relative to any directory
+function referencesFile(reference: string, file: string): boolean {
+  return (
+    reference === file ||
+    reference.endsWith(`/${file}`) ||
+    file.endsWith(`/${reference}`)
+  );
+}
+
+/**
+ * Plan the pages affected by renamed and removed source files. A page
+ * named after a renamed file moves with it (and is redirected), other pages
+ * referencing it are updated, and pages documenting a removed file are
+ * flagged for deprecation.
+ * @param codeAnalysis - Analyzed changes
+ * @param docStructure - Existing pages with their references
+ * @returns Planned updates for the affected pages
+ */
+function planRelocations(
+  codeAnalysis: CodeAnalysis,
+  docStructure: DocStructure
+): PlannedDocUpdate[] {
+  const updates: PlannedDocUpdate[] = [];
+
+  for (const change of codeAnalysis.changes) {
+    const oldFile =
+      change.type === "renamed" ? change.previousFile :
+      change.type === "removed" ? change.file :
+      undefined;
+    if (!oldFile) {
+      continue;
+    }
+
+    const pages = docStructure.files.filter((doc) =>
+      doc.references?.some((reference) => referencesFile(reference, oldFile))
+    );
+    for (const page of pages) {
+      if (change.type === "removed") {
+        updates.push({
+          path: page.path,
+          type: "deprecate",
+          reason: `Documents ${oldFile}, which was removed`,
+          priority: "high",
+          sourceFiles: [oldFile],
+        });
+      } else if (
+        baseName(page.path) === baseName(oldFile) &&
+        baseName(oldFile) !== baseName(change.file)
+      ) {
+        const directory = page.path.slice(0, page.path.lastIndexOf("/") + 1);
+        const extension = page.path.slice(page.path.lastIndexOf("."));
+        updates.push({
+          path: `${directory}${baseName(change.file)}${extension}`,
+          previousPath: page.path,
+          type: "move",
+          reason: `${oldFile} was renamed to ${change.file}`,
+          priority: "high",
+          sourceFiles: [change.file],
+        });
+      } else {
+        updates.push({
+          path: page.path,
+          type: "update",
+          reason: `References ${oldFile}, which was renamed to ${change.file}`,
+          priority: "medium",
+          sourceFiles: [change.file],
+        });
+      }
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Make sure every page mapped to a changed file by pathMappings is in the
+ * plan. A page the LLM already planned keeps its plan and gains the mapped
+ * files as sources; a missing one is added, as an update of an existing
+ * page or the creation of a new one.
+ * @param plan - Plan so far
+ * @param codeAnalysis - Analyzed changes, with their mapped pages
+ * @param docStructure - Existing pages
+ * @returns The plan with every mapped page
+ */
+function planMappedPages(
+  plan: UpdatePlan,
+  codeAnalysis: CodeAnalysis,
+  docStructure: DocStructure
+): UpdatePlan {
+  const sources = new Map<string, CodeChange[]>();
+  for (const change of codeAnalysis.changes) {
+    for (const page of change.mappedDocs || []) {
+      sources.set(page, [...(sources.get(page) || []), change]);
+    }
+  }
+  if (!sources.size) {
+    return plan;
+  }
+
+  const updates = [...plan.updates];
+  for (const [path, changes] of sources) {
+    const files = changes.map((change) => change.file);
+    // A page moved by a relocation is planned under its new path
+    if (updates.some((update) => update.previousPath === path)) {
+      continue;
+    }
+    const index = updates.findIndex((update) => update.path === path);
+    if (index !== -1) {
+      const planned = updates[index];
+      updates[index] = {
+        ...planned,
+        sourceFiles: Array.from(new Set([...planned.sourceFiles, ...files])),
+      };
+      continue;
+    }
+    const exists = docStructure.files.some((doc) => doc.path === path);
+    updates.push({
+      path,
+      type: exists ? "update" : "create",
+      reason: `Mapped to ${files.join(", ")} by pathMappings`,
+      priority: changes.some((change) => change.breaking || change.symbols?.length)
+        ? "high"
+        : "medium",
+      sourceFiles: files,
+    });
+  }
+
+  return { ...plan, updates };
+}
+
+/**
+ * Merge the relocations into the LLM's plan. They replace whatever the LLM
+ * planned for the same pages, and only the first relocation of a page is kept.
+ * @param plan - Plan from the LLM
+ * @param relocations - Updates from planRelocations
+ * @returns The merged plan
+ */
+function mergeRelocations(
+  plan: UpdatePlan,
+  relocations: PlannedDocUpdate[]
+): UpdatePlan {
+  const claimed = new Set<string>();
+  const updates: PlannedDocUpdate[] = [];
+  for (const relocation of relocations) {
+    const paths = [relocation.path, relocation.previousPath].filter(
+      (path): path is string => !!path
+    );
+    if (paths.some((path) => claimed.has(path))) {
+      continue;
+    }
+    paths.forEach((path) => claimed.add(path));
+    updates.push(relocation);
+  }
+
+  return {
+    ...plan,
+    updates: [
+      ...updates,
+      ...plan.updates.filter((update) => !claimed.has(update.path)),
+    ],
+  };
+}
+
+// Created when the docs have no migration or upgrade guide yet
+const MIGRATION_GUIDE_FILE = "migration-guide.mdx";
+const MIGRATION_GUIDE_GROUP = "Migration";
+
+/**
+ * Plan the migration guide for the breaking changes of a PR: the existing
+ * migration or upgrade guide gets a section, or a new guide is created and
+ * added to the navigation
+ * @param plan - Plan so far
+ * @param codeAnalysis - Analyzed changes
+ * @param docStructure - Existing pages
+ * @param docsPath - Docs directory, where a new guide is created
+ * @returns The plan with the guide, unchanged without breaking changes
+ */
+function planMigrationGuide(
+  plan: UpdatePlan,
+  codeAnalysis: CodeAnalysis,
+  docStructure: DocStructure,
+  docsPath: string
+): UpdatePlan {
+  const breakingChanges = codeAnalysis.breakingChanges;
+  if (!breakingChanges.length) {
+    return plan;
+  }
+
+  const existing = docStructure.files.find((doc) =>
+    /migrat|upgrad/i.test(baseName(doc.path))
+  );
+  const root = docsRoot(docsPath);
+  const path = existing?.path || (root ? `${root}/${MIGRATION_GUIDE_FILE}` : MIGRATION_GUIDE_FILE);
+
+  const guide: PlannedDocUpdate = {
+    path,
+    type: existing ? "update" : "create",
+    reason: `${breakingChanges.length} breaking change${breakingChanges.length === 1 ? "" : "s"} need migration steps`,
+    priority: "high",
+    sourceFiles: Array.from(new Set(breakingChanges.map((change) => change.file))),
+    breakingChanges,
+    migrationGuide: true,
+    suggestedContent: {
+      title: existing ? undefined : "Migration Guide",
+      sections: breakingChanges.map((change) => change.description),
+    },
+  };
+
+  return {
+    ...plan,
+    updates: [guide, ...plan.updates.filter((update) => update.path !== path)],
+    navigationChanges: existing
+      ? plan.navigationChanges
+      : [
+          ...(plan.navigationChanges || []),
+          {
+            group: MIGRATION_GUIDE_GROUP,
+            changes: [{ type: "add", page: docsPageId(path, docsPath) }],
+          },
+        ],
+  };
+}
+
+/**
+ * Attach the breaking changes to the pages documenting the broken code, so
+ * they get a callout. Pages referencing the code that the plan leaves out
+ * are added to it.
+ * @param plan - Plan with the migration guide
+ * @param codeAnalysis - Analyzed changes
+ * @param docStructure - Existing pages with their references
+ * @returns The plan with the affected pages marked
+ */
+function markBreakingPages(
+  plan: UpdatePlan,
+  codeAnalysis: CodeAnalysis,
+  docStructure: DocStructure
+): UpdatePlan {
+  const breakingChanges = codeAnalysis.breakingChanges;
+  if (!breakingChanges.length) {
+    return plan;
+  }
+
+  const updates = plan.updates.map((update) => {
+    if (update.migrationGuide || update.type === "deprecate" || update.type === "delete") {
+      return update;
+    }
+    const affecting = breakingChanges.filter((change) =>
+      update.sourceFiles.includes(change.file)
+    );
+    return affecting.length ? { ...update, breakingChanges: affecting } : update;
   });
 
-  const plan = JSON.parse(response.choices[0]?.message?.content || "{}");
+  for (const doc of docStructure.files) {
+    if (updates.some((update) => update.path === doc.path || update.previousPath === doc.path)) {
+      continue;
+    }
+    const affecting = breakingChanges.filter((change) =>
+      doc.references?.some((reference) => referencesFile(reference, change.file))
+    );
+    if (affecting.length) {
+      updates.push({
+        path: doc.path,
+        type: "update",
+        reason: `Documents code with breaking changes: ${affecting.map((change) => change.description).join("; ")}`,
+        priority: "high",
+        sourceFiles: Array.from(new Set(affecting.map((change) => change.file))),
+        breakingChanges: affecting,
+      });
+    }
+  }
+
+  return { ...plan, updates };
+}
+
+// Endpoint pages go here when the docs have no API reference yet
+const API_REFERENCE_DIRECTORY = "api-reference";
+const API_REFERENCE_GROUP = "API Reference";
+
+// File name of an endpoint page: its operationId, or its method and path
+function endpointSlug(operation: string, signature?: string): string {
+  const { operationId } = describeOperation(signature);
+  return (operationId || operation)
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Plan the API reference for changed OpenAPI specs: mint.json must list the
+ * spec, new operations get an endpoint page (rendered by Mintlify from the
+ * spec) added to the navigation, and the pages of removed operations are
+ * deleted
+ * @param plan - Plan so far
+ * @param codeAnalysis - Analyzed changes, with the operations of each spec
+ * @param docStructure - Existing pages and navigation
+ * @param docsPath - Docs directory
+ * @param specReference - How mint.json refers to a spec of the source repository
+ * @returns The plan with the API reference updates
+ */
+function planApiReference(
+  plan: UpdatePlan,
+  codeAnalysis: CodeAnalysis,
+  docStructure: DocStructure,
+  docsPath: string,
+  specReference: (file: string) => string
+): UpdatePlan {
+  const specs = codeAnalysis.changes.filter(
+    (change) => OPENAPI_FILE_PATTERN.test(change.file) && change.symbols?.length
+  );
+  if (!specs.length) {
+    return plan;
+  }
+
+  // Follow the existing API reference, if any
+  const existingEndpoint = docStructure.files.find((doc) =>
+    doc.path.includes(`/${API_REFERENCE_DIRECTORY}/`)
+  );
+  const root = docsRoot(docsPath);
+  const directory = existingEndpoint
+    ? existingEndpoint.path.slice(0, existingEndpoint.path.lastIndexOf("/"))
+    : [root, API_REFERENCE_DIRECTORY].filter(Boolean).join("/");
+  const directoryId = docsPageId(directory, docsPath);
+  const group =
+    docStructure.navigation.find((item) =>
+      item.pages.some((page) => page.startsWith(`${directoryId}/`))
+    )?.group || API_REFERENCE_GROUP;
 
-  // Validate and clean up the plan
+  const updates: PlannedDocUpdate[] = [];
+  const navigation: { type: "add" | "remove"; page: string }[] = [];
+  const openapi = new Set(plan.openapi || []);
+
+  for (const spec of specs) {
+    if (spec.type !== "removed") {
+      openapi.add(specReference(spec.file));
+    }
+    for (const symbol of spec.symbols || []) {
+      if (symbol.kind !== "operation" || symbol.change === "changed") {
+        continue;
+      }
+      const path = `${directory}/${endpointSlug(symbol.name, symbol.after || symbol.before)}.mdx`;
+      const exists = docStructure.files.some((doc) => doc.path === path);
+      if (symbol.change === "added" && !exists) {
+        updates.push({
+          path,
+          type: "create",
+          reason: `New endpoint ${symbol.name} in ${spec.file}`,
+          priority: "high",
+          sourceFiles: [spec.file],
+          openapiOperation: symbol.name,
+          suggestedContent: { title: describeOperation(symbol.after).summary || symbol.name },
+        });
+        navigation.push({ type: "add", page: docsPageId(path, docsPath) });
+      } else if (symbol.change === "removed" && exists) {
+        updates.push({
+          path,
+          type: "delete",
+          reason: `Endpoint ${symbol.name} was removed from ${spec.file}`,
+          priority: "high",
+          sourceFiles: [spec.file],
+          openapiOperation: symbol.name,
+        });
+        navigation.push({ type: "remove", page: docsPageId(path, docsPath) });
+      }
+    }
+  }
+
+  const claimed = new Set(updates.map((update) => update.path));
   return {
-    summary: plan.summary || "No summary provided",
-    updates: (plan.updates || []).map((update: any) => ({
-      path: update.path,
-      type: update.type || "update",
-      reason: update.reason || "Update needed based on code changes",
-      priority: update.priority || "medium",
-      sourceFiles: update.sourceFiles || [],
-      relatedDocs: update.relatedDocs || [],
-      suggestedContent: update.suggestedContent || undefined,
-    })),
-    navigationChanges: plan.navigationChanges || [],
+    ...plan,
+    updates: [...updates, ...plan.updates.filter((update) => !claimed.has(update.path))],
+    navigationChanges: navigation.length
+      ? [...(plan.navigationChanges || []), { group, changes: navigation }]
+      : plan.navigationChanges,
+    openapi: Array.from(openapi),
   };
 }
 
@@ -153,9 +598,6 @@ export const planDocUpdates = createAction({
     context: SpinAiContext,
     parameters?: Record<string, unknown>
   ): Promise<SpinAiContext> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
     if (!parameters || !isPlanDocUpdatesParams(parameters)) {
       throw new Error("Invalid parameters provided");
     }
@@ -173,18 +615,57 @@ export const planDocUpdates = createAction({
       );
     }
 
-    const openai = new Groq({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = getLLMProvider(state.config, "generateUpdatePlan");
 
     console.log("\n=== Planning Documentation Updates ===");
 
     // Generate the update plan
-    const plan = await generateUpdatePlan(
-      openai,
+    const llmPlan = await generateUpdatePlan(
+      llm,
       state.codeAnalysis,
       state.docStructure,
       state.config
     );
 
+    // Renamed and removed source files move or deprecate their pages, and
+    // pages mapped to changed files by pathMappings are always planned
+    const relocations = planRelocations(state.codeAnalysis, state.docStructure);
+    const relocated = planMappedPages(
+      mergeRelocations(llmPlan, relocations),
+      state.codeAnalysis,
+      state.docStructure
+    );
+
+    // Changed OpenAPI specs update mint.json and the endpoint pages
+    const docsRepo = state.docsRepo;
+    const withApiReference = planApiReference(
+      relocated,
+      state.codeAnalysis,
+      state.docStructure,
+      state.config.docsPath,
+      (file) => {
+        const root = docsRoot(state.config.docsPath);
+        const sameRepository =
+          !docsRepo || isSourceRepository(docsRepo, parameters.owner, parameters.repo);
+        // Mintlify reads specs next to mint.json, other ones by URL
+        return sameRepository && (!root || file.startsWith(`${root}/`))
+          ? (root ? file.slice(root.length + 1) : file)
+          : `https://raw.githubusercontent.com/${parameters.owner}/${parameters.repo}/HEAD/${file}`;
+      }
+    );
+
+    // Breaking changes get a migration guide and a callout on affected pages
+    const plan = markBreakingPages(
+      planMigrationGuide(
+        withApiReference,
+        state.codeAnalysis,
+        state.docStructure,
+        state.config.docsPath
+      ),
+      state.codeAnalysis,
+      state.docStructure
+    );
+
     // Store plan in state
     state.updatePlan = plan;
 
@@ -193,10 +674,15 @@ export const planDocUpdates = createAction({
     console.log("\nPlanned Updates:");
     plan.updates.forEach((update) => {
       console.log(
-        `\n${update.type === "create" ? "Create" : "Update"}: ${update.path}`
+        update.previousPath
+          ? `\nMove: ${update.previousPath} -> ${update.path}`
+          : `\n${update.type === "create" ? "Create" : update.type === "deprecate" ? "Deprecate" : update.type === "delete" ? "Delete" : "Update"}: ${update.path}`
       );
       console.log(`Priority: ${update.priority}`);
       console.log(`Reason: ${update.reason}`);
+      if (update.breakingChanges?.length) {
+        console.log(`Breaking Changes: ${update.breakingChanges.length}`);
+      }
       if (update.suggestedContent) {
         console.log(
           "Suggested Content:",
@@ -2,6 +2,9 @@ import { createAction } from "spinai";
 import type { SpinAiContext } from "spinai";
 import type { ReviewState, NavigationItem, GeneratedContent } from "../types";
 import { Octokit } from "@octokit/rest";
+import { posix } from "path";
+import { docsPageId } from "../docsPaths";
+import { resolveDocsRepo } from "../github";
 
 interface UpdateNavigationParams {
   owner: string;
@@ -166,6 +169,46 @@ function applyNavigationChanges(
   return updatedNavigation;
 }
 
+/**
+ * List OpenAPI specs in the "openapi" field of mint.json. Specs are matched
+ * on their file name, so a spec already listed under another form (a URL,
+ * or a path with "./") is not added again.
+ * @param mintJson - Parsed mint.json, updated in place
+ * @param specs - Spec paths or URLs
+ * @returns The specs that were added
+ */
+function addOpenApiSpecs(mintJson: Record<string, any>, specs: string[]): string[] {
+  const existing: string[] =
+    typeof mintJson.openapi === "string" ? [mintJson.openapi] : mintJson.openapi || [];
+  const fileOf = (spec: string) => spec.split("/").pop();
+  const added = specs.filter(
+    (spec) => !existing.some((current) => fileOf(current) === fileOf(spec))
+  );
+  if (added.length) {
+    const all = [...existing, ...added];
+    mintJson.openapi = all.length === 1 ? all[0] : all;
+  }
+  return added;
+}
+
+/**
+ * Point navigation entries of moved pages to their new path
+ * @param navigation - Current navigation structure
+ * @param moves - Old and new page ids
+ * @returns Updated navigation structure
+ */
+function applyMoves(
+  navigation: NavigationItem[],
+  moves: Array<{ from: string; to: string }>
+): NavigationItem[] {
+  return navigation.map((group) => ({
+    ...group,
+    pages: group.pages.map(
+      (page) => moves.find((move) => move.from === page)?.to || page
+    ),
+  }));
+}
+
 export const updateNavigation = createAction({
   id: "updateNavigation",
   description:
@@ -216,22 +259,34 @@ export const updateNavigation = createAction({
         }))
       ) || [];
 
+    const redirects = state.generatedContent.redirects || [];
+    const specs = state.updatePlan.openapi || [];
+
     // Skip if no navigation changes
-    if (allChanges.length === 0) {
+    if (allChanges.length === 0 && redirects.length === 0 && specs.length === 0) {
       console.log("No navigation changes needed, skipping update");
       return context;
     }
 
     // Get current mint.json content
+    const docsRepo =
+      state.docsRepo ||
+      (await resolveDocsRepo(
+        octokit,
+        state.config,
+        parameters.owner,
+        parameters.repo
+      ));
+    state.docsRepo = docsRepo;
     const {
       content: mintJsonContent,
       path: mintJsonPath,
       sha,
     } = await getMintJsonContent(
       octokit,
-      state.docsRepo?.owner || parameters.owner,
-      state.docsRepo?.repo || parameters.repo,
-      state.docsRepo?.branch || "main",
+      docsRepo.owner,
+      docsRepo.repo,
+      docsRepo.branch,
       state.config.docsPath
     );
 
@@ -240,15 +295,42 @@ export const updateNavigation = createAction({
     const currentNavigation: NavigationItem[] = mintJson.navigation || [];
 
     // Apply changes to navigation structure
+    // Page ids are relative to the directory of mint.json
+    const mintJsonDir = posix.dirname(mintJsonPath);
+    const moves = redirects.map((redirect) => ({
+      from: docsPageId(redirect.from, mintJsonDir),
+      to: docsPageId(redirect.to, mintJsonDir),
+    }));
     const updatedNavigation = applyNavigationChanges(
-      currentNavigation,
+      applyMoves(currentNavigation, moves),
       allChanges
     );
 
-    // Update mint.json content
+    // Update mint.json content, old URLs of moved pages keep working
     mintJson.navigation = updatedNavigation;
+    if (moves.length > 0) {
+      const existing: Array<{ source: string; destination: string }> =
+        mintJson.redirects || [];
+      mintJson.redirects = [
+        ...existing.filter(
+          (redirect) => !moves.some((move) => `/${move.from}` === redirect.source)
+        ),
+        ...moves.map((move) => ({
+          source: `/${move.from}`,
+          destination: `/${move.to}`,
+        })),
+      ];
+    }
+    const addedSpecs = addOpenApiSpecs(mintJson, specs);
     const updatedContent = JSON.stringify(mintJson, null, 2);
 
+    // Specs may all be listed already and changes may be no-ops, leave
+    // mint.json out of the PR then
+    if (updatedContent === JSON.stringify(JSON.parse(mintJsonContent), null, 2)) {
+      console.log("Navigation is already up to date, skipping update");
+      return context;
+    }
+
     // Store navigation update in state
     state.generatedContent.navigationUpdate = {
       path: mintJsonPath,
@@ -258,6 +340,12 @@ export const updateNavigation = createAction({
 
     console.log("\n=== Navigation Update Summary ===");
     console.log("Changes applied:", allChanges.length);
+    moves.forEach((move) => {
+      console.log(`- redirect: /${move.from} -> /${move.to}`);
+    });
+    addedSpecs.forEach((spec) => {
+      console.log(`- openapi: ${spec}`);
+    });
     allChanges.forEach((change) => {
       console.log(
         `- ${change.type}: ${change.page} in group '${change.group}'`
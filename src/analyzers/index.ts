@@ -0,0 +1,183 @@
+import { Octokit } from "@octokit/rest";
+import type { CodeChange, SourceSymbol, SymbolChange, SymbolKind } from "../types";
+import { extractExportedSymbols } from "./typescript";
+import { extractLaravelSymbols } from "./laravel";
+import { OPENAPI_FILE_PATTERN, extractOpenApiSymbols } from "./openapi";
+
+export interface SourceAnalyzer {
+  // Files the analyzer understands
+  files: RegExp;
+  // Symbols keyed by an identity that is stable across versions of the file
+  extractSymbols: (source: string, fileName: string) => Map<string, SourceSymbol>;
+}
+
+// The first analyzer matching a file is used
+const analyzers: SourceAnalyzer[] = [
+  {
+    files: OPENAPI_FILE_PATTERN,
+    extractSymbols: extractOpenApiSymbols,
+  },
+  {
+    files: /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/,
+    extractSymbols: extractExportedSymbols,
+  },
+  {
+    files: /\.php$/,
+    extractSymbols: extractLaravelSymbols,
+  },
+];
+
+// Symbol kinds that stand for a whole class
+const CLASS_KINDS: SymbolKind[] = ["class", "event", "mail", "notification"];
+
+// Each analyzed file costs two content requests
+const MAX_ANALYZED_FILES = 50;
+
+// Larger files are generated or bundled code, not worth parsing
+const MAX_ANALYZED_FILE_SIZE = 500_000;
+
+/**
+ * Find the analyzer for a file
+ * @param fileName - File path
+ * @returns The analyzer, if the file's language has one
+ */
+export function findAnalyzer(fileName: string): SourceAnalyzer | undefined {
+  return analyzers.find((analyzer) => analyzer.files.test(fileName));
+}
+
+/**
+ * Compare the symbols of two versions of a file
+ * @param base - Symbols of the base version
+ * @param head - Symbols of the head version
+ * @returns Added, removed and changed symbols
+ */
+export function diffSymbols(
+  base: Map<string, SourceSymbol>,
+  head: Map<string, SourceSymbol>
+): SymbolChange[] {
+  const changes: SymbolChange[] = [];
+  for (const [key, symbol] of head) {
+    const before = base.get(key);
+    const { name, kind } = symbol;
+    if (!before) {
+      changes.push({ name, kind, change: "added", after: symbol.signature });
+    } else if (before.signature !== symbol.signature) {
+      changes.push({
+        name,
+        kind,
+        change: "changed",
+        before: before.signature,
+        after: symbol.signature,
+      });
+    }
+  }
+  for (const [key, symbol] of base) {
+    if (!head.has(key)) {
+      changes.push({
+        name: symbol.name,
+        kind: symbol.kind,
+        change: "removed",
+        before: symbol.signature,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Describe symbol changes for a prompt
+ * @param symbols - Symbol changes of a file
+ * @returns One line per symbol, with the signatures
+ */
+export function describeSymbolChanges(symbols: SymbolChange[]): string {
+  return symbols
+    .map((symbol) => {
+      const label = `${symbol.change} ${symbol.kind} ${symbol.name}`;
+      if (symbol.change === "changed") {
+        return `- ${label}\n  before: ${symbol.before}\n  after: ${symbol.after}`;
+      }
+      return `- ${label}: ${symbol.after || symbol.before}`;
+    })
+    .join("\n");
+}
+
+async function getFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string> {
+  const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+  if (!("content" in data)) {
+    throw new Error(`${path} is not a file`);
+  }
+  if (data.size > MAX_ANALYZED_FILE_SIZE) {
+    throw new Error(`${path} is too large to analyze (${data.size} bytes)`);
+  }
+  return Buffer.from(data.content, "base64").toString("utf-8");
+}
+
+/**
+ * Attach a symbol-level diff to the changes of files whose language has an
+ * analyzer. The base and head versions are parsed instead of the patch, so
+ * comments, strings and formatting don't count as API changes. Files that
+ * can't be fetched or parsed keep their patch-based analysis.
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param changes - Changes of the PR, updated in place
+ * @param refs - Merge base and head commits of the PR
+ */
+export async function analyzeSymbols(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  changes: CodeChange[],
+  refs: { base: string; head: string }
+): Promise<void> {
+  const candidates = changes.filter((change) => findAnalyzer(change.file));
+  if (candidates.length > MAX_ANALYZED_FILES) {
+    console.log(
+      `⚠️ ${candidates.length} files can be analyzed, only the first ${MAX_ANALYZED_FILES} are parsed`
+    );
+  }
+
+  for (const change of candidates.slice(0, MAX_ANALYZED_FILES)) {
+    const analyzer = findAnalyzer(change.file) as SourceAnalyzer;
+    const basePath = change.previousFile || change.file;
+    try {
+      const base =
+        change.type === "added"
+          ? new Map<string, SourceSymbol>()
+          : analyzer.extractSymbols(
+              await getFileContent(octokit, owner, repo, basePath, refs.base),
+              basePath
+            );
+      const head =
+        change.type === "removed"
+          ? new Map<string, SourceSymbol>()
+          : analyzer.extractSymbols(
+              await getFileContent(octokit, owner, repo, change.file, refs.head),
+              change.file
+            );
+      change.symbols = diffSymbols(base, head);
+
+      const kinds = new Set(change.symbols.map((symbol) => symbol.kind));
+      change.significance = {
+        ...change.significance,
+        // CommonJS exports yield no symbols, keep what the patch showed then
+        hasExports: change.symbols.length > 0 || change.significance.hasExports,
+        hasInterfaces: kinds.has("interface"),
+        hasClasses: CLASS_KINDS.some((kind) => kinds.has(kind)),
+        hasTypes: kinds.has("type"),
+        hasEnums: kinds.has("enum"),
+      };
+    } catch (error) {
+      console.log(
+        `⚠️ Could not analyze the symbols of ${change.file}, using the patch only:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
@@ -0,0 +1,591 @@
+import type { SourceSymbol, SymbolKind } from "../types";
+
+// A PHP file with comments removed, and a copy with string contents blanked
+// too, so brackets can be matched without being fooled by either. Both keep
+// the offsets of the original source.
+interface PhpSource {
+  code: string;
+  masked: string;
+}
+
+type ClassRole = "model" | "controller" | "event" | "mail" | "notification" | "class";
+
+const RELATIONS = [
+  "hasOne",
+  "hasMany",
+  "belongsTo",
+  "belongsToMany",
+  "hasOneThrough",
+  "hasManyThrough",
+  "morphTo",
+  "morphOne",
+  "morphMany",
+  "morphToMany",
+  "morphedByMany",
+];
+
+// Model properties that list attributes
+const ATTRIBUTE_LISTS = ["fillable", "guarded", "hidden", "visible", "appends"];
+
+const ROUTE_VERBS: Record<string, string> = {
+  get: "GET",
+  post: "POST",
+  put: "PUT",
+  patch: "PATCH",
+  delete: "DELETE",
+  options: "OPTIONS",
+  any: "ANY",
+  view: "GET",
+  resource: "RESOURCE",
+  apiResource: "API RESOURCE",
+  redirect: "REDIRECT",
+  permanentRedirect: "REDIRECT",
+};
+
+// Laravel serves routes/api.php under /api
+const ROUTE_FILE_PREFIXES: Record<string, string> = { api: "api" };
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+function parsePhp(source: string): PhpSource {
+  let code = "";
+  let masked = "";
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+    if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const comment = source.slice(i, end === -1 ? source.length : end + 2);
+      code += blank(comment);
+      masked += blank(comment);
+      i += comment.length;
+    } else if ((char === "/" && next === "/") || (char === "#" && next !== "[")) {
+      const end = source.indexOf("\n", i);
+      const comment = source.slice(i, end === -1 ? source.length : end);
+      code += blank(comment);
+      masked += blank(comment);
+      i += comment.length;
+    } else if (char === "'" || char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      const literal = source.slice(i, end + 1);
+      code += literal;
+      masked += char + blank(literal.slice(1, -1)) + (literal.length > 1 ? char : "");
+      i += literal.length;
+    } else {
+      code += char;
+      masked += char;
+      i++;
+    }
+  }
+  return { code, masked };
+}
+
+const CLOSING: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+// Index of the bracket closing the one at `open`
+function findClosing(masked: string, open: number): number {
+  const stack: string[] = [];
+  for (let i = open; i < masked.length; i++) {
+    const char = masked[i];
+    if (CLOSING[char]) {
+      stack.push(CLOSING[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      if (!stack.length) {
+        return i;
+      }
+    }
+  }
+  return masked.length - 1;
+}
+
+// Blank everything nested in braces between start and end, so only the
+// members of a class (or the top level of a file) are left to match on
+function flatten(masked: string, start: number, end: number): string {
+  let flat = masked.slice(0, start);
+  for (let i = start; i < end; i++) {
+    if (masked[i] === "{") {
+      const close = Math.min(findClosing(masked, i), end - 1);
+      flat += "{" + blank(masked.slice(i + 1, close)) + "}";
+      i = close;
+    } else {
+      flat += masked[i];
+    }
+  }
+  return flat + masked.slice(end);
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/\(\s+/g, "(")
+    .replace(/\s+\)/g, ")")
+    .replace(/,\s*\)/g, ")")
+    .trim();
+}
+
+function unquote(text: string): string {
+  return text.trim().replace(/^(['"])(.*)\1$/, "$2");
+}
+
+// Split call arguments on their top-level commas
+function splitArguments(php: PhpSource, open: number, close: number): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let i = open + 1; i < close; i++) {
+    const char = php.masked[i];
+    if (CLOSING[char]) {
+      depth++;
+    } else if (char === ")" || char === "]" || char === "}") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      args.push(php.code.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = php.code.slice(start, close).trim();
+  return last ? [...args, last] : args;
+}
+
+function quotedStrings(text: string): string[] {
+  return Array.from(text.matchAll(/['"]([^'"]+)['"]/g), (match) => match[1]);
+}
+
+function keyedValues(text: string): [string, string][] {
+  return Array.from(
+    text.matchAll(/['"]([^'"]+)['"]\s*=>\s*([^,\]\n]+)/g),
+    (match) => [match[1], unquote(normalize(match[2]))]
+  );
+}
+
+interface PhpMethod {
+  name: string;
+  visibility: "public" | "protected" | "private";
+  signature: string;
+  body: string;
+  bodyStart: number;
+}
+
+interface PhpProperty {
+  name: string;
+  visibility: "public" | "protected" | "private";
+  signature: string;
+  value: string;
+}
+
+function classMembers(
+  php: PhpSource,
+  open: number,
+  close: number
+): { methods: PhpMethod[]; properties: PhpProperty[] } {
+  const flat = flatten(php.masked, open + 1, close);
+  const methods: PhpMethod[] = [];
+  const properties: PhpProperty[] = [];
+  // Promoted constructor parameters are part of the constructor's signature
+  const signatures: [number, number][] = [];
+
+  const methodPattern =
+    /((?:(?:public|protected|private|static|abstract|final)\s+)*)function\s+&?\s*(\w+)\s*\(/g;
+  methodPattern.lastIndex = open + 1;
+  for (let match; (match = methodPattern.exec(flat)) && match.index < close; ) {
+    const paren = match.index + match[0].length - 1;
+    const paramsEnd = findClosing(php.masked, paren);
+    let end = paramsEnd + 1;
+    while (end < close && flat[end] !== "{" && flat[end] !== ";") {
+      end++;
+    }
+    const bodyEnd = flat[end] === "{" ? findClosing(php.masked, end) : end;
+    const modifiers = match[1];
+    signatures.push([match.index, end]);
+    methods.push({
+      name: match[2],
+      visibility: /private/.test(modifiers)
+        ? "private"
+        : /protected/.test(modifiers)
+          ? "protected"
+          : "public",
+      signature: normalize(php.code.slice(match.index, end)),
+      body: flat[end] === "{" ? php.code.slice(end + 1, bodyEnd) : "",
+      bodyStart: end + 1,
+    });
+    methodPattern.lastIndex = bodyEnd + 1;
+  }
+
+  const propertyPattern =
+    /((?:(?:public|protected|private|static|readonly|var)\s+)+)(?:\??[\w\\|]+\s+)?\$(\w+)\s*(=)?/g;
+  propertyPattern.lastIndex = open + 1;
+  for (let match; (match = propertyPattern.exec(flat)) && match.index < close; ) {
+    const inSignature = signatures.find(
+      ([start, end]) => start <= match.index && match.index < end
+    );
+    if (inSignature) {
+      propertyPattern.lastIndex = inSignature[1];
+      continue;
+    }
+    const end = flat.indexOf(";", match.index);
+    if (end === -1 || end > close) {
+      break;
+    }
+    const modifiers = match[1];
+    properties.push({
+      name: match[2],
+      visibility: /private/.test(modifiers)
+        ? "private"
+        : /protected/.test(modifiers)
+          ? "protected"
+          : "public",
+      signature: normalize(php.code.slice(match.index, end)),
+      value: match[3] ? php.code.slice(match.index + match[0].length, end) : "",
+    });
+    propertyPattern.lastIndex = end + 1;
+  }
+
+  return { methods, properties };
+}
+
+function classRole(fileName: string, parent: string | undefined): ClassRole {
+  const base = parent?.split("\\").pop();
+  if (/(^|\/)app\/Models\//.test(fileName) || ["Model", "Authenticatable", "Pivot"].includes(base || "")) {
+    return "model";
+  }
+  if (/(^|\/)app\/Mail\//.test(fileName) || base === "Mailable") {
+    return "mail";
+  }
+  if (/(^|\/)app\/Notifications\//.test(fileName) || base === "Notification") {
+    return "notification";
+  }
+  if (/(^|\/)app\/Events\//.test(fileName)) {
+    return "event";
+  }
+  if (/\/Controllers\//.test(fileName) || base === "Controller") {
+    return "controller";
+  }
+  return "class";
+}
+
+// Framework hooks of mail and notification classes, summarized on the class
+const MESSAGE_HOOKS = [
+  "build",
+  "envelope",
+  "content",
+  "attachments",
+  "via",
+  "toMail",
+  "toArray",
+  "toDatabase",
+  "toBroadcast",
+];
+
+function messageSignature(
+  header: string,
+  role: ClassRole,
+  methods: PhpMethod[],
+  properties: PhpProperty[]
+): string {
+  const parts = [header];
+  const constructor = methods.find((method) => method.name === "__construct");
+  if (constructor) {
+    parts.push(constructor.signature);
+  }
+  parts.push(
+    ...properties
+      .filter((property) => property.visibility === "public")
+      .map((property) => property.signature)
+  );
+
+  const body = (name: string) => methods.find((method) => method.name === name)?.body || "";
+  if (role === "mail") {
+    const subject =
+      /subject\s*:\s*(['"][^'"]*['"])/.exec(body("envelope")) ||
+      /->subject\(\s*(['"][^'"]*['"])/.exec(body("build"));
+    const view =
+      /(?:view|markdown)\s*:\s*(['"][^'"]*['"])/.exec(body("content")) ||
+      /->(?:view|markdown)\(\s*(['"][^'"]*['"])/.exec(body("build"));
+    if (subject) parts.push(`subject ${subject[1]}`);
+    if (view) parts.push(`view ${view[1]}`);
+  }
+  if (role === "notification") {
+    const via = /return\s*\[([^\]]*)\]/.exec(body("via"));
+    if (via) parts.push(`via [${quotedStrings(via[1]).join(", ")}]`);
+    const channels = methods
+      .filter((method) => method.name.startsWith("to") && MESSAGE_HOOKS.includes(method.name))
+      .map((method) => method.name);
+    if (channels.length) parts.push(`renders ${channels.join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+function modelSymbols(
+  className: string,
+  php: PhpSource,
+  methods: PhpMethod[],
+  properties: PhpProperty[],
+  add: (kind: SymbolKind, name: string, signature: string) => void
+): void {
+  // An attribute is reported once, with every list it appears in
+  const lists = new Map<string, string[]>();
+  for (const property of properties) {
+    if (ATTRIBUTE_LISTS.includes(property.name)) {
+      for (const attribute of quotedStrings(property.value)) {
+        lists.set(attribute, [...(lists.get(attribute) || []), property.name]);
+      }
+    }
+    if (property.name === "casts") {
+      for (const [attribute, cast] of keyedValues(property.value)) {
+        add("cast", `${className}::$${attribute}`, cast);
+      }
+    }
+  }
+  for (const [attribute, names] of lists) {
+    add("attribute", `${className}::$${attribute}`, names.join(", "));
+  }
+
+  for (const method of methods) {
+    if (method.name === "casts") {
+      // Laravel 11 declares casts in a (protected) method
+      for (const [attribute, cast] of keyedValues(method.body)) {
+        add("cast", `${className}::$${attribute}`, cast);
+      }
+      continue;
+    }
+    if (method.visibility !== "public") {
+      continue;
+    }
+    const relation = new RegExp(`\\$this\\s*->\\s*(${RELATIONS.join("|")})\\s*\\(`).exec(
+      php.masked.slice(method.bodyStart, method.bodyStart + method.body.length)
+    );
+    if (relation) {
+      const open = method.bodyStart + relation.index + relation[0].length - 1;
+      const close = findClosing(php.masked, open);
+      add(
+        "relation",
+        `${className}::${method.name}`,
+        `${relation[1]}(${splitArguments(php, open, close).join(", ")})`
+      );
+      continue;
+    }
+    add("method", `${className}::${method.name}`, method.signature);
+  }
+}
+
+function classSymbols(
+  fileName: string,
+  php: PhpSource,
+  add: (kind: SymbolKind, name: string, signature: string) => void
+): void {
+  const flat = flatten(php.masked, 0, php.masked.length);
+  const classPattern =
+    /(?<!::)\b(?:(?:abstract|final|readonly)\s+)*class\s+(\w+)(?:\s+extends\s+([\w\\]+))?(?:\s+implements\s+([\w\\,\s]+?))?\s*\{/g;
+
+  for (let match; (match = classPattern.exec(flat)); ) {
+    const className = match[1];
+    const open = match.index + match[0].length - 1;
+    const close = findClosing(php.masked, open);
+    const role = classRole(fileName, match[2]);
+    const { methods, properties } = classMembers(php, open, close);
+    const header = normalize(php.code.slice(match.index, open));
+
+    if (role === "event" || role === "mail" || role === "notification") {
+      add(role, className, messageSignature(header, role, methods, properties));
+      continue;
+    }
+    if (role === "model") {
+      modelSymbols(className, php, methods, properties, add);
+      continue;
+    }
+    for (const method of methods) {
+      if (method.visibility !== "public") {
+        continue;
+      }
+      // Magic methods are not called directly, except invokable classes and
+      // the constructor of services, which shows their dependencies
+      const magic = method.name.startsWith("__");
+      if (
+        magic &&
+        method.name !== "__invoke" &&
+        !(method.name === "__construct" && role === "class")
+      ) {
+        continue;
+      }
+      add("method", `${className}::${method.name}`, method.signature);
+    }
+  }
+}
+
+interface RouteGroup {
+  start: number;
+  end: number;
+  prefix?: string;
+  controller?: string;
+  name?: string;
+  middleware: string[];
+}
+
+interface RouteCall {
+  method: string;
+  args: string[];
+  open: number;
+  close: number;
+}
+
+// Parse a chain of calls like Route::middleware('auth')->get('/x', ...)
+function routeChain(php: PhpSource, start: number): RouteCall[] {
+  const calls: RouteCall[] = [];
+  const callPattern = /^(?:Route::|\s*->\s*)(\w+)\s*\(/;
+  let position = start;
+  for (let match; (match = callPattern.exec(php.masked.slice(position, position + 200))); ) {
+    const open = position + match[0].length - 1;
+    const close = findClosing(php.masked, open);
+    calls.push({ method: match[1], args: splitArguments(php, open, close), open, close });
+    position = close + 1;
+  }
+  return calls;
+}
+
+// Middleware names of a middleware() call or a 'middleware' group attribute,
+// given as a string, an array or several arguments
+function middlewareNames(chain: RouteCall[], method: string, attributes = ""): string[] {
+  const call = chain.find((candidate) => candidate.method === method);
+  const attribute = /['"]middleware['"]\s*=>\s*(\[[^\]]*\]|['"][^'"]*['"])/.exec(attributes);
+  return [
+    ...(attribute ? quotedStrings(attribute[1]) : []),
+    ...(call ? quotedStrings(call.args.join(", ")) : []),
+  ];
+}
+
+function joinRoutePath(...segments: (string | undefined)[]): string {
+  const path = segments
+    .map((segment) => segment?.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/");
+  return `/${path}`;
+}
+
+function describeHandler(handler: string | undefined, controller?: string): string {
+  if (!handler) {
+    return "";
+  }
+  const normalized = normalize(handler);
+  // A method name in a Route::controller() group
+  if (controller && /^['"]\w+['"]$/.test(normalized)) {
+    return `[${controller}, ${normalized}]`;
+  }
+  return /^(static\s+)?(function|fn)\b/.test(normalized) ? "closure" : normalized;
+}
+
+function routeSymbols(
+  fileName: string,
+  php: PhpSource,
+  add: (kind: SymbolKind, name: string, signature: string) => void
+): void {
+  const routeFile = fileName.split("/").pop()?.replace(/\.php$/, "") || "";
+  const filePrefix = ROUTE_FILE_PREFIXES[routeFile];
+  const groups: RouteGroup[] = [];
+
+  for (const match of php.masked.matchAll(/\bRoute::/g)) {
+    const chain = routeChain(php, match.index as number);
+    const group = chain.find((call) => call.method === "group");
+    const option = (method: string) =>
+      chain.find((call) => call.method === method)?.args[0];
+
+    if (group) {
+      // Route::group(['prefix' => 'admin'], function () { ... }) or
+      // Route::prefix('admin')->group(function () { ... })
+      const attributeList = group.args.length > 1 ? group.args[0] : "";
+      const attributes = new Map(keyedValues(attributeList));
+      const controller = option("controller") || attributes.get("controller");
+      groups.push({
+        start: group.open,
+        end: group.close,
+        prefix: option("prefix") ? unquote(option("prefix") as string) : attributes.get("prefix"),
+        controller: controller ? normalize(controller) : undefined,
+        name: option("name") ? unquote(option("name") as string) : attributes.get("as"),
+        middleware: middlewareNames(chain, "middleware", attributeList),
+      });
+      continue;
+    }
+
+    const route = chain.find((call) => ROUTE_VERBS[call.method] || call.method === "match");
+    if (!route) {
+      continue;
+    }
+    const enclosing = groups.filter(
+      (candidate) => candidate.start < route.open && route.close < candidate.end
+    );
+    const args = [...route.args];
+    const verb =
+      route.method === "match"
+        ? quotedStrings(args.shift() || "").map((method) => method.toUpperCase()).join("|")
+        : ROUTE_VERBS[route.method];
+    const path = joinRoutePath(
+      filePrefix,
+      ...enclosing.map((candidate) => candidate.prefix),
+      unquote(args[0] || "")
+    );
+    const controller = [...enclosing].reverse().find((candidate) => candidate.controller)?.controller;
+    const handler = describeHandler(args[1], controller);
+
+    const details = [`${verb} ${path}`];
+    if (handler) {
+      details.push(handler);
+    }
+    const routeName = option("name");
+    if (routeName) {
+      const namePrefix = enclosing.map((candidate) => candidate.name || "").join("");
+      details.push(`name ${namePrefix}${unquote(routeName)}`);
+    }
+    // Group middleware applies from the outer group in, the route's own last
+    const excluded = middlewareNames(chain, "withoutMiddleware");
+    const middleware = Array.from(
+      new Set([
+        ...enclosing.flatMap((candidate) => candidate.middleware),
+        ...middlewareNames(chain, "middleware"),
+      ])
+    ).filter((name) => !excluded.includes(name));
+    if (middleware.length) {
+      details.push(`middleware ${middleware.join(", ")}`);
+    }
+    add("route", `${verb} ${path}`, details.join(" -> "));
+  }
+}
+
+/**
+ * Collect the parts of a Laravel application that are documented: routes
+ * from routes/*.php, public methods of controllers and services, model
+ * attributes, casts and relations, and the events, mails and notifications
+ * the application sends. The PHP is scanned with patterns rather than
+ * parsed, comments and strings are masked so they can't produce symbols.
+ * @param source - PHP source
+ * @param fileName - File path, used to recognize routes and class roles
+ * @returns Symbols by kind and name
+ */
+export function extractLaravelSymbols(
+  source: string,
+  fileName: string
+): Map<string, SourceSymbol> {
+  const php = parsePhp(source);
+  const symbols = new Map<string, SourceSymbol>();
+  const add = (kind: SymbolKind, name: string, signature: string) => {
+    const key = `${kind}:${name}`;
+    const existing = symbols.get(key);
+    symbols.set(key, {
+      name,
+      kind,
+      signature: existing ? `${existing.signature}; ${signature}` : signature,
+    });
+  };
+
+  if (/(^|\/)routes\/[^/]+\.php$/.test(fileName)) {
+    routeSymbols(fileName, php, add);
+  } else {
+    classSymbols(fileName, php, add);
+  }
+  return symbols;
+}
@@ -0,0 +1,211 @@
+import { parse as parseYaml } from "yaml";
+import type { SourceSymbol, SymbolKind } from "../types";
+
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+// Referenced schemas are inlined this deep, deeper ones are named only
+const MAX_SCHEMA_DEPTH = 3;
+
+// Spec file names Mintlify projects and generators commonly use
+export const OPENAPI_FILE_PATTERN = /(^|\/)(openapi|swagger)[\w.-]*\.(ya?ml|json)$/i;
+
+type Spec = Record<string, any>;
+
+function resolveRef(spec: Spec, ref: string): any {
+  return ref
+    .replace(/^#\//, "")
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((node, segment) => node?.[segment], spec);
+}
+
+function refName(ref: string): string {
+  return ref.split("/").pop() || ref;
+}
+
+function describeType(schema: any): string {
+  if (!schema || typeof schema !== "object") {
+    return "any";
+  }
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  const type = Array.isArray(schema.type) ? schema.type.join("|") : schema.type;
+  const base = type || (schema.properties ? "object" : schema.items ? "array" : "any");
+  const parts = [base];
+  if (schema.format) parts.push(`(${schema.format})`);
+  if (Array.isArray(schema.enum)) parts.push(` enum(${schema.enum.join("|")})`);
+  if (schema.nullable) parts.push(" nullable");
+  return parts.join("");
+}
+
+/**
+ * Flatten a schema to one "path: type" entry per property, with "!" after
+ * required properties, so two versions can be compared property by property
+ * @param spec - Whole spec, to resolve references
+ * @param schema - Schema to flatten
+ * @param prefix - Path of the schema
+ * @param depth - Levels of references already inlined
+ * @returns The entries
+ */
+function flattenSchema(spec: Spec, schema: any, prefix = "", depth = 0): string[] {
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+  if (schema.$ref) {
+    return depth >= MAX_SCHEMA_DEPTH
+      ? []
+      : flattenSchema(spec, resolveRef(spec, schema.$ref), prefix, depth + 1);
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.flatMap((part: any) => flattenSchema(spec, part, prefix, depth));
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    const variants: any[] = schema.oneOf || schema.anyOf;
+    return [`${prefix || "(root)"}: ${schema.oneOf ? "oneOf" : "anyOf"}(${variants.map(describeType).join(", ")})`];
+  }
+
+  const entries: string[] = [];
+  if (schema.properties) {
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    for (const [name, property] of Object.entries<any>(schema.properties)) {
+      const path = prefix ? `${prefix}.${name}` : name;
+      const resolved = property?.$ref ? resolveRef(spec, property.$ref) : property;
+      entries.push(`${path}${required.includes(name) ? "!" : ""}: ${describeType(property)}`);
+      if (resolved?.properties || resolved?.items || resolved?.allOf) {
+        entries.push(...flattenSchema(spec, property, path, depth));
+      }
+    }
+  } else if (schema.items) {
+    entries.push(`${prefix}[]: ${describeType(schema.items)}`);
+    entries.push(...flattenSchema(spec, schema.items, `${prefix}[]`, depth));
+  } else if (!prefix) {
+    entries.push(`(root): ${describeType(schema)}`);
+  }
+  return entries;
+}
+
+// JSON content is what the docs show, other media types are named only
+function contentSignature(spec: Spec, content: any): string[] {
+  if (!content || typeof content !== "object") {
+    return [];
+  }
+  const mediaTypes = Object.keys(content);
+  const json = mediaTypes.find((type) => /json/.test(type)) || mediaTypes[0];
+  if (!json) {
+    return [];
+  }
+  const entries = flattenSchema(spec, content[json]?.schema).sort();
+  return mediaTypes.length > 1 || !/json/.test(json)
+    ? [`content ${mediaTypes.sort().join(", ")}`, ...entries]
+    : entries;
+}
+
+function parameterSignature(parameter: any): string {
+  const schema = parameter.schema || parameter;
+  return `${parameter.required ? "required" : "optional"} ${describeType(schema)}${parameter.deprecated ? " deprecated" : ""}`;
+}
+
+/**
+ * Read the title and identifiers recorded in an operation's signature
+ * @param signature - Signature of an "operation" symbol
+ * @returns The operation's summary and operationId, if the spec has them
+ */
+export function describeOperation(signature = ""): { summary?: string; operationId?: string } {
+  const field = (name: string) =>
+    signature.split("; ").find((part) => part.startsWith(`${name}: `))?.slice(name.length + 2);
+  return { summary: field("summary"), operationId: field("operationId") };
+}
+
+/**
+ * Collect the operations of an OpenAPI (or Swagger) spec with their
+ * parameters, request bodies and responses, and the shared component
+ * schemas. Request and response schemas are flattened property by property,
+ * so a diff tells which fields were added, removed or changed type.
+ * @param source - Spec, as YAML or JSON
+ * @param fileName - File name, unused as YAML also parses JSON
+ * @returns Symbols by kind and name
+ */
+export function extractOpenApiSymbols(
+  source: string,
+  fileName: string
+): Map<string, SourceSymbol> {
+  const spec: Spec = parseYaml(source) || {};
+  if (typeof spec !== "object" || (!spec.openapi && !spec.swagger)) {
+    throw new Error(`${fileName} is not an OpenAPI spec`);
+  }
+
+  const symbols = new Map<string, SourceSymbol>();
+  const add = (kind: SymbolKind, name: string, signature: string) => {
+    symbols.set(`${kind}:${name}`, { name, kind, signature });
+  };
+
+  for (const [path, item] of Object.entries<any>(spec.paths || {})) {
+    const shared: any[] = item?.parameters || [];
+    for (const method of METHODS) {
+      const operation = item?.[method];
+      if (!operation) {
+        continue;
+      }
+      const endpoint = `${method.toUpperCase()} ${path}`;
+      add(
+        "operation",
+        endpoint,
+        [
+          operation.summary && `summary: ${operation.summary}`,
+          operation.operationId && `operationId: ${operation.operationId}`,
+          operation.tags?.length && `tags: ${operation.tags.join(", ")}`,
+          operation.deprecated && "deprecated",
+          operation.security && `security: ${JSON.stringify(operation.security)}`,
+        ]
+          .filter(Boolean)
+          .join("; ") || "operation"
+      );
+
+      // Operation parameters override path parameters with the same name
+      const parameters = new Map<string, any>();
+      for (const parameter of [...shared, ...(operation.parameters || [])]) {
+        const resolved = parameter?.$ref ? resolveRef(spec, parameter.$ref) : parameter;
+        if (resolved?.name) {
+          parameters.set(`${resolved.in} ${resolved.name}`, resolved);
+        }
+      }
+      for (const [name, parameter] of parameters) {
+        // Swagger 2 declares the body as a parameter
+        if (parameter.in === "body") {
+          add("requestBody", `${endpoint} request body`, [
+            ...(parameter.required ? ["required"] : []),
+            ...flattenSchema(spec, parameter.schema).sort(),
+          ].join("; "));
+          continue;
+        }
+        add("parameter", `${endpoint} ${name} parameter`, parameterSignature(parameter));
+      }
+
+      const body = operation.requestBody?.$ref
+        ? resolveRef(spec, operation.requestBody.$ref)
+        : operation.requestBody;
+      if (body) {
+        add("requestBody", `${endpoint} request body`, [
+          ...(body.required ? ["required"] : []),
+          ...contentSignature(spec, body.content),
+        ].join("; "));
+      }
+
+      for (const [status, response] of Object.entries<any>(operation.responses || {})) {
+        const resolved = response?.$ref ? resolveRef(spec, response.$ref) : response;
+        const entries = resolved?.content
+          ? contentSignature(spec, resolved.content)
+          : flattenSchema(spec, resolved?.schema).sort();
+        add("response", `${endpoint} ${status} response`, entries.join("; ") || "no content");
+      }
+    }
+  }
+
+  const schemas = spec.components?.schemas || spec.definitions || {};
+  for (const [name, schema] of Object.entries<any>(schemas)) {
+    add("schema", name, flattenSchema(spec, schema).sort().join("; ") || describeType(schema));
+  }
+
+  return symbols;
+}
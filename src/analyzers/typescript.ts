@@ -0,0 +1,376 @@
+import ts from "typescript";
+import type { SourceSymbol, SymbolKind } from "../types";
+
+const printer = ts.createPrinter({ removeComments: true });
+
+function isExported(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    )
+  );
+}
+
+function isDefaultExport(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword
+    )
+  );
+}
+
+function print(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return printer
+    .printNode(ts.EmitHint.Unspecified, node, sourceFile)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Private and protected members are not part of the public API
+function isPublicMember(member: ts.ClassElement): boolean {
+  if (member.name && ts.isPrivateIdentifier(member.name)) {
+    return false;
+  }
+  return !(ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined)?.some(
+    (modifier) =>
+      modifier.kind === ts.SyntaxKind.PrivateKeyword ||
+      modifier.kind === ts.SyntaxKind.ProtectedKeyword
+  );
+}
+
+// Implementation details don't change a signature
+function withoutBody(member: ts.ClassElement): ts.ClassElement {
+  const { factory } = ts;
+  if (ts.isMethodDeclaration(member)) {
+    return factory.updateMethodDeclaration(
+      member,
+      member.modifiers,
+      member.asteriskToken,
+      member.name,
+      member.questionToken,
+      member.typeParameters,
+      member.parameters,
+      member.type,
+      undefined
+    );
+  }
+  if (ts.isConstructorDeclaration(member)) {
+    return factory.updateConstructorDeclaration(
+      member,
+      member.modifiers,
+      member.parameters,
+      undefined
+    );
+  }
+  if (ts.isGetAccessorDeclaration(member)) {
+    return factory.updateGetAccessorDeclaration(
+      member,
+      member.modifiers,
+      member.name,
+      member.parameters,
+      member.type,
+      undefined
+    );
+  }
+  if (ts.isSetAccessorDeclaration(member)) {
+    return factory.updateSetAccessorDeclaration(
+      member,
+      member.modifiers,
+      member.name,
+      member.parameters,
+      undefined
+    );
+  }
+  if (ts.isPropertyDeclaration(member) && member.type) {
+    // A typed property's default value is not part of its signature
+    return factory.updatePropertyDeclaration(
+      member,
+      member.modifiers,
+      member.name,
+      member.questionToken ?? member.exclamationToken,
+      member.type,
+      undefined
+    );
+  }
+  return member;
+}
+
+function functionSignature(
+  node: ts.FunctionDeclaration,
+  sourceFile: ts.SourceFile
+): string {
+  return print(
+    ts.factory.updateFunctionDeclaration(
+      node,
+      node.modifiers,
+      node.asteriskToken,
+      node.name,
+      node.typeParameters,
+      node.parameters,
+      node.type,
+      undefined
+    ),
+    sourceFile
+  );
+}
+
+function classSignature(
+  node: ts.ClassDeclaration,
+  sourceFile: ts.SourceFile
+): string {
+  return print(
+    ts.factory.updateClassDeclaration(
+      node,
+      node.modifiers,
+      node.name,
+      node.typeParameters,
+      node.heritageClauses,
+      node.members.filter(isPublicMember).map(withoutBody)
+    ),
+    sourceFile
+  );
+}
+
+function variableSignature(
+  declaration: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile
+): { kind: SymbolKind; signature: string } {
+  const name = declaration.name.getText(sourceFile);
+  const initializer = declaration.initializer;
+  if (
+    initializer &&
+    (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+  ) {
+    const typeParameters = initializer.typeParameters
+      ? `<${initializer.typeParameters.map((p) => print(p, sourceFile)).join(", ")}>`
+      : "";
+    const parameters = initializer.parameters
+      .map((p) => print(p, sourceFile))
+      .join(", ");
+    const returnType = initializer.type ? `: ${print(initializer.type, sourceFile)}` : "";
+    return {
+      kind: "function",
+      signature: `const ${name} = ${typeParameters}(${parameters})${returnType}`,
+    };
+  }
+  // The value of a constant is not part of its signature, only its type
+  const type = declaration.type
+    ? print(declaration.type, sourceFile)
+    : initializerType(initializer, sourceFile);
+  return { kind: "variable", signature: `const ${name}: ${type}` };
+}
+
+// Type of an untyped variable, from the shape of its initializer: literals
+// give their primitive type, objects their properties, other expressions
+// "unknown" as only the compiler could tell
+function initializerType(
+  initializer: ts.Expression | undefined,
+  sourceFile: ts.SourceFile
+): string {
+  if (!initializer) {
+    return "unknown";
+  }
+  if (ts.isParenthesizedExpression(initializer)) {
+    return initializerType(initializer.expression, sourceFile);
+  }
+  if (ts.isAsExpression(initializer) || ts.isSatisfiesExpression(initializer)) {
+    return ts.isConstTypeReference(initializer.type) || ts.isSatisfiesExpression(initializer)
+      ? initializerType(initializer.expression, sourceFile)
+      : print(initializer.type, sourceFile);
+  }
+  if (
+    ts.isNumericLiteral(initializer) ||
+    (ts.isPrefixUnaryExpression(initializer) && ts.isNumericLiteral(initializer.operand))
+  ) {
+    return "number";
+  }
+  if (ts.isStringLiteralLike(initializer) || ts.isTemplateExpression(initializer)) {
+    return "string";
+  }
+  if (
+    initializer.kind === ts.SyntaxKind.TrueKeyword ||
+    initializer.kind === ts.SyntaxKind.FalseKeyword
+  ) {
+    return "boolean";
+  }
+  if (initializer.kind === ts.SyntaxKind.NullKeyword) {
+    return "null";
+  }
+  if (ts.isArrayLiteralExpression(initializer)) {
+    const elements = Array.from(
+      new Set(initializer.elements.map((element) => initializerType(element, sourceFile)))
+    );
+    if (elements.length > 1) {
+      return `(${elements.join(" | ")})[]`;
+    }
+    return `${elements[0] || "unknown"}[]`;
+  }
+  if (ts.isObjectLiteralExpression(initializer)) {
+    const properties = initializer.properties.map((property) => {
+      const name = property.name?.getText(sourceFile) || "...";
+      if (ts.isPropertyAssignment(property)) {
+        const value = property.initializer;
+        return ts.isArrowFunction(value) || ts.isFunctionExpression(value)
+          ? `${name}: function`
+          : `${name}: ${initializerType(value, sourceFile)}`;
+      }
+      return ts.isMethodDeclaration(property) ? `${name}: function` : `${name}: unknown`;
+    });
+    return properties.length ? `{ ${properties.join("; ")}; }` : "{}";
+  }
+  if (ts.isNewExpression(initializer)) {
+    return initializer.expression.getText(sourceFile);
+  }
+  return "unknown";
+}
+
+interface Declared {
+  name: string;
+  kind: SymbolKind;
+  signature: string;
+  implementation?: boolean; // Function with a body, after its overloads
+}
+
+// Symbols declared by a statement, exported or not
+function declaredSymbols(statement: ts.Statement, sourceFile: ts.SourceFile): Declared[] {
+  if (ts.isFunctionDeclaration(statement)) {
+    return [
+      {
+        name: statement.name?.text || "default",
+        kind: "function",
+        signature: functionSignature(statement, sourceFile),
+        implementation: !!statement.body,
+      },
+    ];
+  }
+  if (ts.isClassDeclaration(statement)) {
+    return [
+      {
+        name: statement.name?.text || "default",
+        kind: "class",
+        signature: classSignature(statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: "interface", signature: print(statement, sourceFile) }];
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: "type", signature: print(statement, sourceFile) }];
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    return [{ name: statement.name.text, kind: "enum", signature: print(statement, sourceFile) }];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.map((declaration) => ({
+      name: declaration.name.getText(sourceFile),
+      ...variableSignature(declaration, sourceFile),
+    }));
+  }
+  return [];
+}
+
+/**
+ * Collect the exported symbols of a TypeScript or JavaScript module with
+ * their signatures. Bodies, comments and formatting are left out, so only
+ * changes to the public API change a signature. Names exported by an
+ * "export { a }" list or "export default a" get the signature of their
+ * local declaration.
+ * @param source - Module source
+ * @param fileName - File name, used to pick the script kind
+ * @returns Exported symbols by name
+ */
+export function extractExportedSymbols(
+  source: string,
+  fileName: string
+): Map<string, SourceSymbol> {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const symbols = new Map<string, SourceSymbol>();
+  const add = (name: string, kind: SymbolKind, signature: string) => {
+    const existing = symbols.get(name);
+    // Overloads and declaration merging share a name
+    symbols.set(name, {
+      name,
+      kind: existing?.kind || kind,
+      signature: existing ? `${existing.signature} ${signature}` : signature,
+    });
+  };
+
+  // Declarations by local name, for "export { a }" and "export default a"
+  const locals = new Map<string, Declared[]>();
+  for (const statement of sourceFile.statements) {
+    for (const declared of declaredSymbols(statement, sourceFile)) {
+      const existing = locals.get(declared.name) || [];
+      // An overload list ends with the implementation, which only repeats it
+      if (!(declared.implementation && existing.length)) {
+        locals.set(declared.name, [...existing, declared]);
+      }
+    }
+  }
+  const addLocal = (local: string, name: string, fallback: string): void => {
+    const declarations = locals.get(local);
+    if (!declarations) {
+      add(name, "reexport", fallback); // Imported, then exported
+      return;
+    }
+    for (const declared of declarations) {
+      add(name, declared.kind, declared.signature);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      // export { a, b as c } from "./x" and export * from "./x"
+      const from = statement.moduleSpecifier
+        ? ` from ${statement.moduleSpecifier.getText(sourceFile)}`
+        : "";
+      const clause = statement.exportClause;
+      if (!clause) {
+        add(`*${from}`, "reexport", `export *${from}`);
+      } else if (ts.isNamespaceExport(clause)) {
+        add(clause.name.text, "reexport", `export * as ${clause.name.text}${from}`);
+      } else {
+        for (const element of clause.elements) {
+          const local = element.propertyName?.getText(sourceFile) || element.name.text;
+          const alias = local === element.name.text ? local : `${local} as ${element.name.text}`;
+          if (from) {
+            add(element.name.text, "reexport", `export { ${alias} }${from}`);
+          } else {
+            // A local declaration exported by name has its own signature
+            addLocal(local, element.name.text, `export { ${alias} }`);
+          }
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      if (ts.isIdentifier(statement.expression)) {
+        addLocal(statement.expression.text, "default", print(statement, sourceFile));
+      } else {
+        add("default", "variable", print(statement, sourceFile));
+      }
+      continue;
+    }
+
+    if (!isExported(statement)) {
+      continue;
+    }
+    for (const declared of declaredSymbols(statement, sourceFile)) {
+      const name = isDefaultExport(statement) ? "default" : declared.name;
+      if (declared.implementation && symbols.has(name)) {
+        continue; // Implementation of overloads
+      }
+      add(name, declared.kind, declared.signature);
+    }
+  }
+
+  return symbols;
+}
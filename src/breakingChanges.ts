@@ -0,0 +1,381 @@
+import type { BreakingChange, CodeChange, SymbolChange } from "./types";
+
+// Lines of a patch kept in the before and after snippets
+const MAX_SNIPPET_LINES = 15;
+
+const CLOSING: Record<string, string> = { "(": ")", "[": "]", "{": "}", "<": ">" };
+
+// Split on a separator outside of brackets
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  const stack: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === ">" && text[i - 1] === "=") {
+      continue; // Arrow of a function type
+    }
+    if (CLOSING[char]) {
+      stack.push(CLOSING[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+    } else if (char === separator && !stack.length) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+// Text between the first opening bracket and its closing one, and what follows
+function enclosed(text: string, open: string): { inner: string; rest: string } | undefined {
+  const start = text.indexOf(open);
+  if (start === -1) {
+    return undefined;
+  }
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    if (text[i] === CLOSING[open] && --depth === 0) {
+      return { inner: text.slice(start + 1, i), rest: text.slice(i + 1).trim() };
+    }
+  }
+  return undefined;
+}
+
+// Parameters with a default value, optional ones and rest parameters can be
+// added without breaking callers
+function isOptionalParameter(parameter: string): boolean {
+  return /^[\w$]+\?\s*:|=|^\.\.\./.test(parameter) || /\.\.\.\s*\$/.test(parameter);
+}
+
+// A new signature is compatible when it keeps the old parameters in order,
+// only appends optional ones and keeps the return type
+function isCompatibleCall(before: string, after: string): boolean {
+  const old = enclosed(before, "(");
+  const current = enclosed(after, "(");
+  if (!old || !current) {
+    return before === after;
+  }
+  const oldParameters = splitTopLevel(old.inner, ",");
+  const newParameters = splitTopLevel(current.inner, ",");
+  return (
+    oldParameters.every((parameter, index) => newParameters[index] === parameter) &&
+    newParameters.slice(oldParameters.length).every(isOptionalParameter) &&
+    old.rest === current.rest
+  );
+}
+
+function memberName(member: string): string {
+  return (
+    /^(?:(?:public|protected|private|readonly|static|abstract|async|get|set)\s+)*([\w$#"']+)/.exec(
+      member
+    )?.[1] || member
+  );
+}
+
+// Classes, interfaces, enums and object types stay compatible when no
+// member is removed or changed incompatibly. New members of interfaces and
+// type aliases must be optional, as every implementation would need them.
+function isCompatibleBody(symbol: SymbolChange): boolean {
+  const separator = symbol.kind === "enum" ? "," : ";";
+  const members = (signature = "") =>
+    new Map(
+      splitTopLevel(enclosed(signature, "{")?.inner || "", separator).map((member) => [
+        memberName(member),
+        member,
+      ])
+    );
+  const before = members(symbol.before);
+  const after = members(symbol.after);
+  const header = (signature = "") => signature.slice(0, signature.indexOf("{")).trim();
+  if (header(symbol.before) !== header(symbol.after)) {
+    return false;
+  }
+
+  for (const [name, member] of before) {
+    const current = after.get(name);
+    if (!current || (current !== member && !isCompatibleCall(member, current))) {
+      return false;
+    }
+  }
+  if (symbol.kind === "interface" || symbol.kind === "type") {
+    for (const [name, member] of after) {
+      if (!before.has(name) && !/^[\w$]+\?\s*[:(]/.test(member)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Flattened schema entries of an API signature, "path!: type" for required
+// properties, by path
+function schemaEntries(signature: string): Map<string, { required: boolean; type: string }> {
+  const entries = new Map<string, { required: boolean; type: string }>();
+  for (const part of signature.split("; ")) {
+    const match = /^(.+?)(!)?: (.*)$/.exec(part);
+    if (match) {
+      entries.set(match[1], { required: !!match[2], type: match[3] });
+    }
+  }
+  return entries;
+}
+
+// Clients read responses: removing a field, changing its type or making it
+// optional breaks them. Request bodies break clients when a field they don't
+// send becomes required or a field changes type.
+function isBreakingSchemaChange(before: string, after: string, direction: "request" | "response" | "both"): boolean {
+  const old = schemaEntries(before);
+  const current = schemaEntries(after);
+  if (direction !== "response") {
+    if (!/^required\b/.test(before) && /^required\b/.test(after)) {
+      return true;
+    }
+    for (const [path, entry] of current) {
+      if (entry.required && !old.get(path)?.required) {
+        return true;
+      }
+    }
+  }
+  for (const [path, entry] of old) {
+    const now = current.get(path);
+    if (now && now.type !== entry.type) {
+      return true;
+    }
+    if (direction !== "request" && (!now || (entry.required && !now.required))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Decide whether a symbol change breaks existing users of the code. Removing
+ * a symbol always does; a changed signature does unless it only adds
+ * optional parameters or members. Renamed routes, added route middleware,
+ * dropped model attributes and changed casts or relations are breaking too,
+ * and so are API changes existing clients can't follow: new required
+ * parameters or request fields, removed or retyped response fields.
+ * @param symbol - Symbol change from an analyzer
+ * @returns true if users of the symbol must change their code
+ */
+export function isBreakingSymbolChange(symbol: SymbolChange): boolean {
+  if (symbol.change === "added") {
+    // A new required input breaks existing requests
+    return (
+      (symbol.kind === "parameter" || symbol.kind === "requestBody") &&
+      /^required\b/.test(symbol.after || "")
+    );
+  }
+  if (symbol.change === "removed") {
+    return true;
+  }
+  const before = symbol.before || "";
+  const after = symbol.after || "";
+
+  switch (symbol.kind) {
+    case "function":
+    case "method":
+      return !isCompatibleCall(before, after);
+    case "class":
+    case "interface":
+    case "enum":
+      return !isCompatibleBody(symbol);
+    case "variable": {
+      // "const NAME: type", the value is not part of the signature
+      const type = (signature: string) => /^const [^:]+: ([\s\S]*)$/.exec(signature)?.[1];
+      const old = type(before);
+      const current = type(after);
+      if (old === undefined || current === undefined) {
+        return before !== after;
+      }
+      if (old === "unknown" || current === "unknown") {
+        return false; // The type can't be told from the source
+      }
+      if (old.startsWith("{") && current.startsWith("{")) {
+        return !isCompatibleBody(symbol);
+      }
+      // Readers of a constant handle the values it had: narrowing is compatible
+      const alternatives = splitTopLevel(old, "|");
+      return !splitTopLevel(current, "|").every((alternative) => alternatives.includes(alternative));
+    }
+    case "type": {
+      const parts = (signature: string) => {
+        const index = signature.indexOf(" = ");
+        return {
+          header: signature.slice(0, index),
+          body: signature.slice(index + 3).replace(/;$/, "").trim(),
+        };
+      };
+      const old = parts(before);
+      const current = parts(after);
+      if (old.header !== current.header) {
+        return true;
+      }
+      if (old.body.startsWith("{") && current.body.startsWith("{")) {
+        return !isCompatibleBody(symbol);
+      }
+      // Adding alternatives to a union is compatible, removing one is not
+      const alternatives = splitTopLevel(current.body, "|");
+      return !splitTopLevel(old.body, "|").every((alternative) => alternatives.includes(alternative));
+    }
+    case "attribute": {
+      // Leaving a list like $fillable breaks callers, so does being hidden
+      const lists = (signature: string) => signature.split(", ");
+      const current = lists(after);
+      return (
+        lists(before).some((list) => !current.includes(list)) ||
+        current.some(
+          (list) => !lists(before).includes(list) && (list === "hidden" || list === "guarded")
+        )
+      );
+    }
+    case "route": {
+      // Only the name and middleware of a route affect its users
+      const contract = (signature: string) =>
+        signature.split(" -> ").filter((part) => /^(name|middleware) /.test(part));
+      return contract(before).join() !== contract(after).join();
+    }
+    case "event":
+    case "mail":
+    case "notification": {
+      // The constructor is how the application dispatches them
+      const constructor = (signature: string) =>
+        signature.split("; ").find((part) => part.includes("__construct")) || "";
+      return !isCompatibleCall(constructor(before), constructor(after));
+    }
+    case "operation": {
+      // Summaries, tags and deprecation are documentation, security is not
+      const security = (signature: string) =>
+        signature.split("; ").find((part) => part.startsWith("security: "));
+      return security(before) !== security(after);
+    }
+    case "parameter": {
+      const type = (signature: string) => signature.replace(/^(required|optional) | deprecated$/g, "");
+      return (
+        (/^required/.test(after) && !/^required/.test(before)) || type(before) !== type(after)
+      );
+    }
+    case "requestBody":
+      return isBreakingSchemaChange(before, after, "request");
+    case "response":
+      return isBreakingSchemaChange(before, after, "response");
+    case "schema":
+      // Component schemas are shared by requests and responses
+      return isBreakingSchemaChange(before, after, "both");
+    default:
+      return true;
+  }
+}
+
+/**
+ * Extract the removed and added lines of a patch, as before and after
+ * snippets of a breaking change
+ * @param patch - Unified diff of a file
+ * @returns The snippets, each limited to a few lines
+ */
+export function snippetsFromPatch(patch: string): { before?: string; after?: string } {
+  const lines = patch.split("\n");
+  const pick = (prefix: string) => {
+    const picked = lines
+      .filter((line) => line.startsWith(prefix) && !line.startsWith(prefix.repeat(3)))
+      .map((line) => line.slice(1));
+    if (!picked.length) {
+      return undefined;
+    }
+    return picked.length > MAX_SNIPPET_LINES
+      ? [...picked.slice(0, MAX_SNIPPET_LINES), "// ..."].join("\n")
+      : picked.join("\n");
+  };
+  return { before: pick("-"), after: pick("+") };
+}
+
+function describeSymbol(symbol: SymbolChange): string {
+  return symbol.change === "removed"
+    ? `Removed ${symbol.kind} ${symbol.name}`
+    : `Changed ${symbol.kind} ${symbol.name} incompatibly`;
+}
+
+/**
+ * Classify the changes of a PR as breaking or not and list the breaking
+ * ones. Symbol changes are classified from their signatures; for files
+ * that were parsed the symbol diff is authoritative, so the model's reports
+ * only count for the other files, with snippets from their patch.
+ * @param changes - Analyzed changes, their breaking flags are set in place
+ * @param reported - Breaking changes reported by the model
+ * @returns The breaking changes
+ */
+export function classifyBreakingChanges(
+  changes: CodeChange[],
+  reported: { file: string; description: string }[]
+): BreakingChange[] {
+  const breaking: BreakingChange[] = [];
+
+  for (const change of changes) {
+    // Inputs of a new operation can't break requests that don't exist yet
+    const addedOperations = (change.symbols || [])
+      .filter((symbol) => symbol.kind === "operation" && symbol.change === "added")
+      .map((symbol) => `${symbol.name} `);
+    for (const symbol of change.symbols || []) {
+      symbol.breaking =
+        isBreakingSymbolChange(symbol) &&
+        !(symbol.change === "added" && addedOperations.some((name) => symbol.name.startsWith(name)));
+      if (symbol.breaking) {
+        breaking.push({
+          file: change.file,
+          symbol: symbol.name,
+          description: describeSymbol(symbol),
+          before: symbol.before,
+          after: symbol.after,
+        });
+      }
+    }
+    change.breaking = breaking.some((item) => item.file === change.file);
+  }
+
+  for (const report of reported) {
+    const change = changes.find((item) => item.file === report.file);
+    // Parsed files are decided by their symbols, unknown files are hallucinated
+    if (!change || change.symbols || change.significance.isTest) {
+      continue;
+    }
+    breaking.push({
+      file: report.file,
+      description: report.description,
+      ...snippetsFromPatch(change.patch),
+    });
+  }
+  for (const change of changes) {
+    change.breaking = breaking.some((item) => item.file === change.file);
+  }
+
+  return breaking;
+}
+
+/**
+ * Describe breaking changes for a prompt
+ * @param changes - Breaking changes
+ * @returns One entry per change, with its before and after snippets
+ */
+export function describeBreakingChanges(changes: BreakingChange[]): string {
+  return changes
+    .map((change) =>
+      [
+        `- ${change.file}: ${change.description}`,
+        change.before ? `  Before:\n${indent(change.before)}` : "",
+        change.after ? `  After:\n${indent(change.after)}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n");
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `    ${line}`)
+    .join("\n");
+}
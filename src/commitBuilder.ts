@@ -0,0 +1,176 @@
+import { Octokit } from "@octokit/rest";
+
+export interface CommitChanges {
+  files: Array<{ path: string; content: string; reason: string }>;
+  navigationUpdate?: {
+    path: string;
+    content: string;
+    changes: Array<unknown>;
+  };
+  deletions?: Array<{ path: string; reason: string }>;
+}
+
+export interface CommitOptions {
+  owner: string;
+  repo: string;
+  branch: string;
+  message: string;
+  // Parent commit, defaults to the current head of the branch
+  parentSha?: string;
+  // Allow moving the branch to a commit that is not a descendant of its head
+  force?: boolean;
+}
+
+export interface CommitResult {
+  sha: string;
+  url: string;
+  createdBranch: boolean;
+}
+
+/**
+ * Render a commit message template. Supported placeholders are
+ * {summary}, {changes}, {prTitle}, {prNumber} and {fileCount}.
+ * @param template - Message template
+ * @param values - Placeholder values
+ * @returns The commit message
+ */
+export function formatCommitMessage(
+  template: string,
+  values: Record<string, string | number>
+): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? String(values[name]) : match
+    )
+    .trim();
+}
+
+/**
+ * List every path touched by a change set with the reason for the change
+ * @param changes - Generated files, navigation update and deletions
+ * @returns One line per path
+ */
+export function describeChanges(changes: CommitChanges): string {
+  const lines = [
+    ...changes.files.map((file) => `- ${file.path}: ${file.reason}`),
+    ...(changes.navigationUpdate
+      ? [
+          `- ${changes.navigationUpdate.path}: Update navigation structure (${changes.navigationUpdate.changes.length} changes)`,
+        ]
+      : []),
+    ...(changes.deletions || []).map(
+      (file) => `- ${file.path} (deleted): ${file.reason}`
+    ),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Commit a whole change set as a single commit using the Git Data API:
+ * one blob per file, one tree, one commit, then a single ref update.
+ * Nothing is visible on the branch until the ref moves, so a failure
+ * midway leaves it untouched.
+ * @param octokit - Octokit instance
+ * @param changes - Generated files, navigation update and deletions
+ * @param options - Target branch, message and parent
+ * @returns The new commit and whether the branch had to be created
+ */
+export async function commitChanges(
+  octokit: Octokit,
+  changes: CommitChanges,
+  options: CommitOptions
+): Promise<CommitResult> {
+  const { owner, repo, branch } = options;
+
+  let branchSha: string | undefined;
+  try {
+    const { data: ref } = await octokit.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+    });
+    branchSha = ref.object.sha;
+  } catch (error: any) {
+    if (error.status !== 404) {
+      throw error;
+    }
+  }
+
+  const parentSha = options.parentSha || branchSha;
+  if (!parentSha) {
+    throw new Error(`Branch ${branch} does not exist and no parent commit was given`);
+  }
+
+  const { data: parent } = await octokit.git.getCommit({
+    owner,
+    repo,
+    commit_sha: parentSha,
+  });
+
+  const files = [...changes.files];
+  if (changes.navigationUpdate) {
+    files.push({ ...changes.navigationUpdate, reason: "Update navigation" });
+  }
+
+  const tree = [];
+  for (const file of files) {
+    const { data: blob } = await octokit.git.createBlob({
+      owner,
+      repo,
+      content: file.content,
+      encoding: "utf-8",
+    });
+    tree.push({
+      path: file.path,
+      mode: "100644" as const,
+      type: "blob" as const,
+      sha: blob.sha,
+    });
+  }
+  for (const file of changes.deletions || []) {
+    tree.push({
+      path: file.path,
+      mode: "100644" as const,
+      type: "blob" as const,
+      sha: null,
+    });
+  }
+
+  const { data: newTree } = await octokit.git.createTree({
+    owner,
+    repo,
+    base_tree: parent.tree.sha,
+    tree,
+  });
+
+  const { data: commit } = await octokit.git.createCommit({
+    owner,
+    repo,
+    message: options.message,
+    tree: newTree.sha,
+    parents: [parentSha],
+  });
+
+  if (branchSha) {
+    await octokit.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha: commit.sha,
+      force: options.force ?? false,
+    });
+  } else {
+    await octokit.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha: commit.sha,
+    });
+  }
+
+  console.log(
+    `Committed ${files.length} file(s) and ${changes.deletions?.length || 0} deletion(s) to ${branch}: ${commit.sha}`
+  );
+
+  return { sha: commit.sha, url: commit.html_url, createdBranch: !branchSha };
+}
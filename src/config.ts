@@ -1,119 +1,97 @@
-import { DocConfig, DocUpdateConfig } from "./types";
+import { DocConfig, DocUpdateConfig, PresetName } from "./types";
+import { ConfigError, validateDocConfig } from "./configSchema";
+import { presets } from "./presets";
+import { normalizePathMappings } from "./pathMappings";
 
-
-
-export const defaultConfig: Required<DocConfig> = {
+// The LLM provider and model have no static default, they are resolved from
+// the environment when the agent runs
+export const defaultConfig: Required<Omit<DocConfig, "llmProvider" | "llmModel">> = {
   docsPath: "docs",
   isMonorepo: true,
-  docsRepoOwner: "piccolojnr",
-  docsRepoName: "resell",
-  docsBranch: "main",
+  docsRepoOwner: "",
+  docsRepoName: "",
+  docsBranch: "",
   fileTypes: [".mdx", ".md"],
-  // its a laravel project with inertia and react so ignore all the necessary paths
-  // Ignore all unnecessary Laravel, Inertia, and React paths
-  ignorePaths: [
-    "yarn.lock",
-    "node_modules",
-    "public",
-    "storage",
-    "bootstrap",
-    "config",
-    "database",
-    'docs',
-    "tests",
-    "resources",
-    "artisan",
-    "server.php",
-    "composer.json",
-    "composer.lock",
-    "package.json",
-    "package-lock.json",
-    "tailwind.config.js",
-    "webpack.mix.js",
-    "webpack.config.js",
-    "postcss.config.js",
-    "babel.config.js",
-    "jest.config.js",
-    "phpunit.xml",
-    "phpunit.xml.dist",
-    "phpcs.xml",
-    "phpcs.xml.dist",
-    "phpstan.neon",
-    "phpstan.neon.dist",
-  ],
+  preset: "auto",
+  ignorePaths: [],
+  relatedFilesDepth: 1,
+  pathMappings: {},
+  significanceThreshold: 2,
   createNewPr: true,
   labels: ["documentation"],
+  commitMessage: "📚 {summary}\n\n{changes}",
   styleGuide: "",
-  importantPatterns: [
-    'resources/js/contexts/**',
-    "app/Console/**",
-    "app/Events/**",
-    "app/Mail/**",
-    "app/Models/**",
-    "app/Notifications/**",
-    "app/Services/**",
-    "app/Http/Controllers/**",
-    "app/Http/Middleware/**",
-    "app/Http/Resources/**",
-    'resources/js/lib/**',
-    'resources/js/hooks/**',
-  ],
+  llmStages: {},
+  // Used when no preset applies
+  importantPatterns: ["src/**", "lib/**", "app/**"],
+  // Ignored whatever the preset
   ignorePatterns: [
-    "app/Http/Controllers/Auth/**",
+    "node_modules/**",
+    ".github/**",
     "yarn.lock",
-    "node_modules",
-    "public",
-    "storage",
-    "bootstrap",
-    "config",
-    "database",
-    'docs',
-    "tests",
-    "resources",
-    "artisan",
-    "server.php",
-    "composer.json",
-    "composer.lock",
-    "package.json",
     "package-lock.json",
-    "tailwind.config.js",
-    "webpack.mix.js",
-    "webpack.config.js",
-    "postcss.config.js",
-    "babel.config.js",
-    "jest.config.js",
-    "phpunit.xml",
-    "phpunit.xml.dist",
-    "phpcs.xml",
-    "phpcs.xml.dist",
-    "phpstan.neon",
-    "phpstan.neon.dist",
+    "pnpm-lock.yaml",
+    "package.json",
   ],
 };
 
-// parse important patterns to include all subdirectories
+// Characters that make a path segment a glob rather than a directory name
+const GLOB_SEGMENT = /[*?[\]{}()!+@]/;
+
+// parse important patterns to include their parent directories, so they
+// can be walked down to. Only the literal directories before the first glob
+// segment are added: "**/models.py" must not become "**", which would make
+// every file important
 const parseImportantPatterns = (patterns: string[]): string[] => {
-  return [... new Set(patterns.reduce((acc: string[], pattern: string): string[] => {
-    return [
-      ...acc,
-      ...pattern.split("/").reduce((acc: string[], part: string, index: number): string[] => {
-        if (acc.length > 0) {
-          return [...acc, `${acc[acc.length - 1]}/${part}`];
-        } else {
-          return [...acc, part];
-        }
-      }, [] as string[]),
-    ];
-  }, [] as string[]))];
+  return [...new Set(patterns.flatMap((pattern: string): string[] => {
+    const parts = pattern.split("/");
+    const literal = parts.findIndex((part) => GLOB_SEGMENT.test(part));
+    const directories = parts
+      .slice(0, literal === -1 ? parts.length - 1 : literal)
+      .map((_, index) => parts.slice(0, index + 1).join("/"));
+    return [...directories, pattern];
+  }))].filter((pattern) => pattern !== "**" && pattern !== "*");
 }
 
+/**
+ * Resolve user configuration into the full configuration used by the agent
+ * @param userConfig - Options overriding the defaults
+ * @param source - Where the options come from, used in error messages
+ * @param detectedPreset - Preset detected from the repository, used for preset "auto"
+ * @returns The resolved configuration
+ * @throws ConfigError if the options don't match the DocConfig schema
+ */
 export function createFullConfig(
-  userConfig: Partial<DocConfig>
+  userConfig: Partial<DocConfig>,
+  source: string = "configuration",
+  detectedPreset?: PresetName
 ): DocUpdateConfig {
+  const errors = validateDocConfig(userConfig);
+  if (errors.length > 0) {
+    throw new ConfigError(source, errors);
+  }
+
   const config = { ...defaultConfig, ...userConfig };
-  // if an ignored pattern is in the important patterns, remove it from the ignore patterns
-  const importantPatterns = parseImportantPatterns(config.importantPatterns)
-  const ignorePatterns = parseImportantPatterns(config.ignorePatterns).map((pattern) => {
+  const presetName =
+    config.preset === "auto" ? detectedPreset :
+    config.preset === "none" ? undefined :
+    config.preset;
+  const preset = presetName ? presets[presetName] : undefined;
+
+  // User patterns are layered on top of the preset instead of replacing it
+  const baseImportantPatterns = preset?.importantPatterns || defaultConfig.importantPatterns;
+  const baseIgnorePatterns = [...defaultConfig.ignorePatterns, ...(preset?.ignorePatterns || [])];
+  const importantPatterns = parseImportantPatterns([
+    ...baseImportantPatterns,
+    ...(userConfig.importantPatterns || []),
+  ]);
+  // if an ignored pattern is in the important patterns, remove it from the ignore patterns.
+  // Ignore patterns are not expanded: ignoring "**" would ignore everything
+  const ignorePatterns = [...new Set([
+    ...baseIgnorePatterns,
+    ...(userConfig.ignorePaths || []),
+    ...(userConfig.ignorePatterns || []),
+  ])].map((pattern) => {
     if (importantPatterns.includes(pattern)) {
       return null;
     }
@@ -123,11 +101,12 @@ export function createFullConfig(
 
   return {
     docsPath: config.docsPath,
-    docsRepo: config.docsRepoOwner
+    preset: presetName,
+    docsBranch: config.docsBranch || undefined,
+    docsRepo: config.docsRepoOwner && config.docsRepoName
       ? {
         owner: config.docsRepoOwner,
-        repo: config.docsRepoName || "",
-        branch: config.docsBranch,
+        repo: config.docsRepoName,
         monorepo: config.isMonorepo,
       }
       : undefined,
@@ -135,24 +114,33 @@ export function createFullConfig(
       docExtensions: config.fileTypes,
       ignorePatterns,
       importantPatterns,
+      pathMappings: normalizePathMappings(config.pathMappings),
+      relatedFilesDepth: config.relatedFilesDepth,
+      significanceThreshold: config.significanceThreshold,
     },
     prConfig: {
       updateOriginalPr: !config.createNewPr,
       branchPrefix: "docs/update",
       titleTemplate: "📚 Update documentation for {prTitle}",
-      bodyTemplate: `This PR updates documentation to reflect changes in #{prNumber}
+      bodyTemplate: `This PR updates documentation to reflect changes in {prReference}
 
 ## Changes
 {changes}
 
 This PR was automatically generated using [SpinAI](https://github.com/Fallomai/spinai).`,
+      commitMessageTemplate: config.commitMessage,
       labels: config.labels,
     },
-    llmConfig: config.styleGuide
-      ? {
-        styleGuide: config.styleGuide,
-        temperature: 0.3,
-      }
-      : undefined,
+    llmConfig: {
+      provider: config.llmProvider,
+      model: config.llmModel,
+      stages: config.llmStages,
+      ...(config.styleGuide
+        ? {
+          styleGuide: config.styleGuide,
+          temperature: 0.3,
+        }
+        : {}),
+    },
   };
 }
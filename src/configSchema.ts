@@ -0,0 +1,303 @@
+import micromatch from "micromatch";
+import type { DocConfig, LLMStage, LLMStageConfig } from "./types";
+import { presets } from "./presets";
+import { LLM_PROVIDERS, LLM_STAGES } from "./llm/settings";
+
+export class ConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly errors: string[]
+  ) {
+    super(`${source} is invalid:\n- ${errors.join("\n- ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type FieldType = "string" | "boolean" | "number" | "string[]" | "glob[]" | "object" | "mappings";
+
+interface FieldSchema {
+  type: FieldType;
+  // Allowed values of a string field
+  values?: string[];
+  // Known keys of an object field
+  fields?: Record<string, FieldSchema>;
+  // Extra checks on a value of the right type, returning an error message
+  check?: (value: any) => string | undefined;
+}
+
+const llmStageSchema: Record<keyof LLMStageConfig, FieldSchema> = {
+  provider: {
+    type: "string",
+    values: [...LLM_PROVIDERS],
+  },
+  model: {
+    type: "string",
+    check: (value: string) =>
+      value.trim() ? undefined : "must not be empty",
+  },
+  temperature: {
+    type: "number",
+    check: (value: number) =>
+      value >= 0 && value <= 2 ? undefined : "must be between 0 and 2",
+  },
+  maxTokens: {
+    type: "number",
+    check: (value: number) =>
+      Number.isInteger(value) && value > 0 ? undefined : "must be a positive integer",
+  },
+  json: { type: "boolean" },
+  maxInputTokens: {
+    type: "number",
+    check: (value: number) =>
+      Number.isInteger(value) && value >= 1000 ? undefined : "must be an integer of at least 1000",
+  },
+};
+
+// Stages whose output is MDX, a JSON response would be written as the page
+const TEXT_STAGES: LLMStage[] = ["generateFileContent", "generateInitialDocs"];
+
+const textStageSchema: Record<keyof LLMStageConfig, FieldSchema> = {
+  ...llmStageSchema,
+  json: {
+    type: "boolean",
+    check: (value: boolean) =>
+      value ? "must not be true, this stage returns MDX" : undefined,
+  },
+};
+
+const docConfigSchema: Record<keyof DocConfig, FieldSchema> = {
+  docsPath: {
+    type: "string",
+    check: (value: string) =>
+      value.startsWith("/") || value.split("/").includes("..")
+        ? "must be a path relative to the repository root"
+        : undefined,
+  },
+  isMonorepo: { type: "boolean" },
+  docsRepoOwner: { type: "string" },
+  docsRepoName: { type: "string" },
+  docsBranch: { type: "string" },
+  fileTypes: {
+    type: "string[]",
+    check: (value: string[]) => {
+      const invalid = value.filter((ext) => !/^\.[\w.-]+$/.test(ext));
+      return invalid.length
+        ? `extensions must start with a dot, got ${invalid.map((ext) => JSON.stringify(ext)).join(", ")}`
+        : undefined;
+    },
+  },
+  preset: {
+    type: "string",
+    values: ["auto", "none", ...Object.keys(presets)],
+  },
+  ignorePaths: { type: "glob[]" },
+  importantPatterns: { type: "glob[]" },
+  ignorePatterns: { type: "glob[]" },
+  relatedFilesDepth: {
+    type: "number",
+    check: (value: number) =>
+      Number.isInteger(value) && value >= 0 && value <= 5 ? undefined : "must be an integer between 0 and 5",
+  },
+  pathMappings: {
+    type: "mappings",
+    check: (value: Record<string, string | string[]>) => {
+      const invalid = Object.values(value)
+        .flat()
+        .filter((page) => page.startsWith("/") || page.split("/").includes(".."));
+      return invalid.length
+        ? `doc pages must be paths relative to the docs repository root, got ${invalid.map((page) => JSON.stringify(page)).join(", ")}`
+        : undefined;
+    },
+  },
+  significanceThreshold: {
+    type: "number",
+    check: (value: number) =>
+      value >= 0 ? undefined : "must be at least 0",
+  },
+  createNewPr: { type: "boolean" },
+  labels: { type: "string[]" },
+  commitMessage: {
+    type: "string",
+    check: (value: string) =>
+      value.trim() ? undefined : "must not be empty",
+  },
+  llmProvider: {
+    type: "string",
+    values: [...LLM_PROVIDERS],
+  },
+  llmModel: {
+    type: "string",
+    check: (value: string) =>
+      value.trim() ? undefined : "must not be empty",
+  },
+  llmStages: {
+    type: "object",
+    fields: Object.fromEntries(
+      LLM_STAGES.map((stage) => [
+        stage,
+        { type: "object", fields: TEXT_STAGES.includes(stage) ? textStageSchema : llmStageSchema },
+      ])
+    ),
+  },
+  styleGuide: { type: "string" },
+};
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// Edit distance, used to suggest the intended option for a typo
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  const candidates = known
+    .map((name) => ({ name, score: distance(key, name) }))
+    .sort((a, b) => a.score - b.score);
+  const best = candidates[0];
+  return best && best.score <= Math.max(2, Math.floor(key.length / 3))
+    ? best.name
+    : undefined;
+}
+
+function validateGlob(pattern: string): string | undefined {
+  try {
+    micromatch.makeRe(pattern, { strictBrackets: true });
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function validateObject(
+  path: string,
+  input: object,
+  fields: Record<string, FieldSchema>
+): string[] {
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(input)) {
+    const name = path ? `${path}.${key}` : key;
+    const schema = fields[key];
+    if (!schema) {
+      const suggestion = suggestKey(key, Object.keys(fields));
+      errors.push(
+        `${name}: unknown option${suggestion ? `, did you mean "${suggestion}"?` : ""}`
+      );
+      continue;
+    }
+    // Explicit undefined means "not set"
+    if (value === undefined) {
+      continue;
+    }
+    errors.push(...validateField(name, value, schema));
+  }
+  return errors;
+}
+
+function validateField(
+  key: string,
+  value: unknown,
+  schema: FieldSchema
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.type === "object") {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${key}: expected an object, got ${describeType(value)}`];
+    }
+    return validateObject(key, value, schema.fields || {});
+  } else if (schema.type === "mappings") {
+    // Globs of source files to a doc page or a list of doc pages
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${key}: expected an object, got ${describeType(value)}`];
+    }
+    for (const [pattern, pages] of Object.entries(value)) {
+      const globError = validateGlob(pattern);
+      if (globError) {
+        errors.push(`${key}: invalid glob pattern ${JSON.stringify(pattern)} (${globError})`);
+      }
+      const list = Array.isArray(pages) ? pages : [pages];
+      if (!list.length || list.some((page) => typeof page !== "string" || !page.trim())) {
+        errors.push(`${key}.${pattern}: expected a doc path or an array of doc paths, got ${JSON.stringify(pages)}`);
+      }
+    }
+    if (errors.length) {
+      return errors;
+    }
+  } else if (schema.type === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return [`${key}: expected a number, got ${describeType(value)}`];
+    }
+  } else if (schema.type === "string" || schema.type === "boolean") {
+    if (typeof value !== schema.type) {
+      return [`${key}: expected a ${schema.type}, got ${describeType(value)}`];
+    }
+  } else {
+    if (!Array.isArray(value)) {
+      return [`${key}: expected an array of strings, got ${describeType(value)}`];
+    }
+    value.forEach((item, index) => {
+      if (typeof item !== "string") {
+        errors.push(`${key}[${index}]: expected a string, got ${describeType(item)}`);
+      } else if (schema.type === "glob[]") {
+        const globError = validateGlob(item);
+        if (globError) {
+          errors.push(`${key}[${index}]: invalid glob pattern ${JSON.stringify(item)} (${globError})`);
+        }
+      }
+    });
+    if (errors.length) {
+      return errors;
+    }
+  }
+
+  if (schema.values && !schema.values.includes(value as string)) {
+    return [
+      `${key}: expected one of ${schema.values.map((item) => JSON.stringify(item)).join(", ")}, got ${JSON.stringify(value)}`,
+    ];
+  }
+
+  const checkError = schema.check?.(value);
+  if (checkError) {
+    errors.push(`${key}: ${checkError}`);
+  }
+  return errors;
+}
+
+/**
+ * Validate user configuration against the DocConfig schema. Rejects unknown
+ * options (suggesting the closest known one), wrong types and invalid globs.
+ * @param input - Configuration as given by the user
+ * @returns A list of precise error messages, empty if the input is valid
+ */
+export function validateDocConfig(input: unknown): string[] {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return [`Expected an object, got ${describeType(input)}`];
+  }
+
+  const errors = validateObject("", input, docConfigSchema);
+
+  const config = input as Partial<DocConfig>;
+  if (!!config.docsRepoOwner !== !!config.docsRepoName) {
+    errors.push("docsRepoOwner and docsRepoName must be set together");
+  }
+
+  return errors;
+}
@@ -0,0 +1,306 @@
+import { Octokit } from "@octokit/rest";
+import { posix } from "path";
+import { readBlob } from "./docsTree";
+import { matchFile } from "./fileMatcher";
+import type { DocUpdateConfig } from "./types";
+
+export interface DependencyGraph {
+  imports: Map<string, Set<string>>; // File to the files it imports
+  importers: Map<string, Set<string>>; // File to the files importing it
+}
+
+type Language = "javascript" | "php" | "python";
+
+const LANGUAGES: Record<string, Language> = {
+  ".ts": "javascript",
+  ".tsx": "javascript",
+  ".mts": "javascript",
+  ".cts": "javascript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".vue": "javascript",
+  ".php": "php",
+  ".py": "python",
+};
+
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".mts", ".cts", ".vue"];
+
+// Directories "@/" and "~/" usually point to, tried in order
+const ALIAS_ROOTS = ["src", "resources/js", "app", ""];
+
+// Each file costs a request unless its blob was read by an earlier run,
+// larger repositories are cut off with a warning
+const MAX_GRAPH_FILES = 800;
+const MAX_GRAPH_FILE_SIZE = 200_000;
+const FETCH_CONCURRENCY = 8;
+
+function languageOf(file: string): Language | undefined {
+  return LANGUAGES[posix.extname(file)];
+}
+
+/**
+ * Extract the import specifiers of a source file, as written
+ * @param source - File content
+ * @param file - File path, used to pick the language
+ * @returns Module specifiers, namespaces or dotted module names
+ */
+export function extractImports(source: string, file: string): string[] {
+  const language = languageOf(file);
+  const specifiers: string[] = [];
+
+  if (language === "javascript") {
+    const pattern =
+      /(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|import\s*['"]([^'"]+)['"]|(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+    for (const match of source.matchAll(pattern)) {
+      specifiers.push(match[1] || match[2] || match[3]);
+    }
+  } else if (language === "php") {
+    // Top-level use statements only, a use inside a class imports a trait
+    for (const match of source.matchAll(/^use\s+(?!function\b|const\b)([^;]+);/gm)) {
+      const statement = match[1].trim();
+      const group = /^([\w\\]+)\\\{([^}]*)\}$/.exec(statement);
+      const names = group
+        ? group[2].split(",").map((name) => `${group[1]}\\${name.trim()}`)
+        : statement.split(",");
+      specifiers.push(
+        ...names
+          .map((name) => name.trim().replace(/\s+as\s+\w+$/i, "").replace(/^\\/, ""))
+          .filter((name) => name.includes("\\"))
+      );
+    }
+  } else if (language === "python") {
+    for (const match of source.matchAll(/^\s*from\s+([.\w]+)\s+import\s+\(?([^)\n]+)/gm)) {
+      const module = match[1];
+      specifiers.push(module);
+      // "from package import module" imports a module too
+      for (const name of match[2].split(",")) {
+        const imported = name.trim().split(/\s+as\s+/)[0];
+        if (/^\w+$/.test(imported)) {
+          specifiers.push(module.endsWith(".") ? `${module}${imported}` : `${module}.${imported}`);
+        }
+      }
+    }
+    for (const match of source.matchAll(/^\s*import\s+([\w., ]+)$/gm)) {
+      specifiers.push(
+        ...match[1].split(",").map((name) => name.trim().split(/\s+as\s+/)[0])
+      );
+    }
+  }
+
+  return specifiers.filter(Boolean);
+}
+
+function findScript(base: string, files: Set<string>): string | undefined {
+  // "./x.js" may point to x.ts in ESM TypeScript projects
+  const stem = base.replace(/\.(m|c)?js$/, "");
+  const candidates = [
+    base,
+    ...SCRIPT_EXTENSIONS.map((extension) => `${stem}${extension}`),
+    ...SCRIPT_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ];
+  return candidates.find((candidate) => files.has(candidate));
+}
+
+/**
+ * Resolve an import specifier to a file of the repository
+ * @param specifier - Specifier from extractImports
+ * @param from - File the import is written in
+ * @param files - Files of the repository
+ * @returns The imported file, undefined for packages and unknown modules
+ */
+export function resolveImport(
+  specifier: string,
+  from: string,
+  files: Set<string>
+): string | undefined {
+  const language = languageOf(from);
+
+  if (language === "javascript") {
+    if (specifier.startsWith(".")) {
+      return findScript(posix.join(posix.dirname(from), specifier), files);
+    }
+    const alias = /^[@~]\/(.*)$/.exec(specifier);
+    if (alias) {
+      for (const root of ALIAS_ROOTS) {
+        const found = findScript(posix.join(root, alias[1]), files);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  if (language === "php") {
+    // PSR-4: App\Models\User lives in app/Models/User.php
+    const segments = specifier.split("\\");
+    const conventional = [segments[0].toLowerCase(), ...segments.slice(1)].join("/") + ".php";
+    if (files.has(conventional)) {
+      return conventional;
+    }
+    // Other namespace roots: a unique file ending with the rest of the name
+    const suffix = `/${segments.slice(1).join("/")}.php`;
+    const matches = Array.from(files).filter((file) => file.endsWith(suffix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  if (language === "python") {
+    const relative = /^(\.+)(.*)$/.exec(specifier);
+    const bases = relative
+      ? [
+          posix.join(
+            posix.dirname(from),
+            ...Array(relative[1].length - 1).fill(".."),
+            relative[2].replace(/\./g, "/")
+          ),
+        ]
+      : [specifier.replace(/\./g, "/"), `src/${specifier.replace(/\./g, "/")}`];
+    for (const base of bases) {
+      const found = [`${base}.py`, `${base}/__init__.py`].find((candidate) =>
+        files.has(candidate)
+      );
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the dependency graph of a set of source files
+ * @param sources - Content by file path
+ * @param files - Every file of the repository, imports are resolved against it
+ * @returns Imports and importers of each file
+ */
+export function buildDependencyGraph(
+  sources: Map<string, string>,
+  files: Set<string>
+): DependencyGraph {
+  const graph: DependencyGraph = { imports: new Map(), importers: new Map() };
+  for (const [file, source] of sources) {
+    for (const specifier of extractImports(source, file)) {
+      const imported = resolveImport(specifier, file, files);
+      if (!imported || imported === file) {
+        continue;
+      }
+      if (!graph.imports.has(file)) graph.imports.set(file, new Set());
+      if (!graph.importers.has(imported)) graph.importers.set(imported, new Set());
+      graph.imports.get(file)?.add(imported);
+      graph.importers.get(imported)?.add(file);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Find the files related to a changed file: the files it imports, and the
+ * files importing it up to a depth, so a change to a shared service reaches
+ * the features built on it
+ * @param graph - Dependency graph
+ * @param file - Changed file
+ * @param depth - Levels of importers to follow, 0 for none
+ * @returns Related files, closest first
+ */
+export function findRelatedFiles(
+  graph: DependencyGraph,
+  file: string,
+  depth: number
+): string[] {
+  if (depth < 1) {
+    return [];
+  }
+  const related = new Set<string>(graph.imports.get(file) || []);
+  const seen = new Set<string>([file]);
+  let level = [file];
+  for (let i = 0; i < depth && level.length; i++) {
+    const next: string[] = [];
+    for (const current of level) {
+      for (const importer of graph.importers.get(current) || []) {
+        if (!seen.has(importer)) {
+          seen.add(importer);
+          related.add(importer);
+          next.push(importer);
+        }
+      }
+    }
+    level = next;
+  }
+  related.delete(file);
+  return Array.from(related);
+}
+
+/**
+ * Load the dependency graph of a repository at a commit, from every source
+ * file within the size and count limits. The patterns only decide which
+ * files are kept when there are too many.
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Commit to read
+ * @param config - Full configuration, for the important and ignore patterns
+ * @param changedFiles - Files changed by the PR, read first
+ * @returns The dependency graph
+ */
+export async function loadDependencyGraph(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  config: DocUpdateConfig,
+  changedFiles: string[]
+): Promise<DependencyGraph> {
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: "true",
+  });
+  const blobs = tree.tree.filter(
+    (item) => item.type === "blob" && item.path && item.sha
+  ) as { path: string; sha: string; size?: number }[];
+  const files = new Set(blobs.map((item) => item.path));
+
+  // Every source file may import a changed one. When there are too many,
+  // changed files are kept first, then important ones, then the others,
+  // and ignored files (vendored code) come last.
+  const rank = (path: string) => {
+    if (changedFiles.includes(path)) return 0;
+    const match = matchFile(path, config.matchRules);
+    return match.important ? 1 : match.included ? 2 : 3;
+  };
+  const candidates = blobs
+    .filter((item) => languageOf(item.path) && (item.size ?? 0) <= MAX_GRAPH_FILE_SIZE)
+    .map((item) => ({ ...item, rank: rank(item.path) }))
+    .sort((a, b) => a.rank - b.rank);
+  if (candidates.length > MAX_GRAPH_FILES) {
+    console.log(
+      `⚠️ ${candidates.length} source files found, the dependency graph is built from the first ${MAX_GRAPH_FILES}`
+    );
+  }
+
+  const sources = new Map<string, string>();
+  const selected = candidates.slice(0, MAX_GRAPH_FILES);
+  for (let i = 0; i < selected.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(
+      selected.slice(i, i + FETCH_CONCURRENCY).map(async (item) => {
+        try {
+          sources.set(item.path, await readBlob(octokit, owner, repo, item.sha));
+        } catch (error: any) {
+          console.log(
+            `⚠️ Could not read ${item.path} for the dependency graph: ${error.message || error}`
+          );
+        }
+      })
+    );
+  }
+
+  const graph = buildDependencyGraph(sources, files);
+  console.log(
+    `🕸️ Dependency graph: ${sources.size} files, ${Array.from(graph.imports.values()).reduce((sum, imports) => sum + imports.size, 0)} imports`
+  );
+  return graph;
+}
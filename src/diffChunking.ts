@@ -0,0 +1,209 @@
+import micromatch from "micromatch";
+import type { CodeChange } from "./types";
+import { estimateTokens, truncateToTokens } from "./llm/tokens";
+import { describeSymbolChanges } from "./analyzers";
+
+// How much of a change is sent to the model. Exported API changes are kept
+// verbatim, regular changes are compressed only when the PR is too large,
+// lockfiles, generated code and tests are always reduced to a summary.
+export type ChangePriority = "api" | "normal" | "low";
+
+export interface PromptEntry {
+  change: CodeChange;
+  priority: ChangePriority;
+  compressed: boolean;
+  text: string;
+  tokens: number;
+}
+
+export interface PromptBatch {
+  entries: PromptEntry[];
+  text: string;
+  tokens: number;
+}
+
+// Above this many batches, regular changes are compressed to keep the
+// number of LLM calls of a single PR reasonable
+const MAX_BATCHES = 6;
+
+const LOCKFILE_PATTERNS = [
+  "**/package-lock.json",
+  "**/yarn.lock",
+  "**/pnpm-lock.yaml",
+  "**/composer.lock",
+  "**/go.sum",
+  "**/Cargo.lock",
+  "**/poetry.lock",
+  "**/Gemfile.lock",
+];
+
+const GENERATED_PATTERNS = [
+  "**/dist/**",
+  "**/build/**",
+  "**/*.min.js",
+  "**/*.min.css",
+  "**/*.map",
+  "**/*.generated.*",
+  "**/*.pb.go",
+  "**/*_gen.go",
+  "**/__snapshots__/**",
+  "**/*.snap",
+];
+
+const TEST_PATTERNS = [
+  "**/*.test.*",
+  "**/*.spec.*",
+  "**/__tests__/**",
+  "**/tests/**",
+  "**/test/**",
+  "**/*_test.go",
+  "**/test_*.py",
+];
+
+/**
+ * Tell why a file is of little interest to documentation
+ * @param file - File path
+ * @returns "lockfile", "generated code" or "tests", undefined for other files
+ */
+export function lowPriorityReason(file: string): string | undefined {
+  if (micromatch.isMatch(file, LOCKFILE_PATTERNS, { dot: true })) return "lockfile";
+  if (micromatch.isMatch(file, GENERATED_PATTERNS, { dot: true })) return "generated code";
+  if (micromatch.isMatch(file, TEST_PATTERNS, { dot: true })) return "tests";
+  return undefined;
+}
+
+function countChangedLines(patch: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("+") && !line.startsWith("+++")) added++;
+    if (line.startsWith("-") && !line.startsWith("---")) removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Describe the status of a change, with the previous path of a rename
+ * @param change - Analyzed change
+ * @returns e.g. "renamed from src/old.ts"
+ */
+export function describeChangeType(change: CodeChange): string {
+  return change.previousFile
+    ? `${change.type} from ${change.previousFile}`
+    : change.type;
+}
+
+function renderChange(change: CodeChange, patchText: string): string {
+  return `
+File: ${change.file} (${describeChangeType(change)})
+Category: ${change.category}
+Significance: ${JSON.stringify(change.significance)}
+${change.symbols?.length ? `Symbol changes:\n${describeSymbolChanges(change.symbols)}\n` : ""}${patchText}
+`;
+}
+
+function renderVerbatim(change: CodeChange, maxTokens: number): string {
+  // Leave room for the file header and the code fence
+  const overhead = estimateTokens(renderChange(change, "Patch:\n```diff\n\n```"));
+  const patch = truncateToTokens(change.patch, Math.max(maxTokens - overhead, 0));
+  return renderChange(change, `Patch:\n\`\`\`diff\n${patch}\n\`\`\``);
+}
+
+function renderCompressed(change: CodeChange, reason: string): string {
+  const { added, removed } = countChangedLines(change.patch);
+  return renderChange(change, `Patch omitted (${reason}): +${added} -${removed} lines`);
+}
+
+function toEntry(
+  change: CodeChange,
+  priority: ChangePriority,
+  text: string,
+  compressed: boolean
+): PromptEntry {
+  return { change, priority, compressed, text, tokens: estimateTokens(text) };
+}
+
+/**
+ * Classify a change by how much of it is worth sending to the model
+ * @param change - Analyzed change
+ * @returns The priority
+ */
+export function classifyChange(change: CodeChange): ChangePriority {
+  if (change.significance.isTest || lowPriorityReason(change.file)) {
+    return "low";
+  }
+  const { hasExports, hasInterfaces, hasClasses, hasTypes, hasEnums } =
+    change.significance;
+  return hasExports || hasInterfaces || hasClasses || hasTypes || hasEnums
+    ? "api"
+    : "normal";
+}
+
+// First fit: each entry goes to the first batch with room for it
+function pack(entries: PromptEntry[], budget: number): PromptBatch[] {
+  const batches: PromptBatch[] = [];
+  for (const entry of entries) {
+    let batch = batches.find((b) => b.tokens + entry.tokens <= budget);
+    if (!batch) {
+      batch = { entries: [], text: "", tokens: 0 };
+      batches.push(batch);
+    }
+    batch.entries.push(entry);
+    batch.tokens += entry.tokens;
+  }
+  for (const batch of batches) {
+    batch.text = batch.entries.map((entry) => entry.text).join("\n");
+  }
+  return batches;
+}
+
+/**
+ * Split the changes of a PR into prompt batches that each fit a token
+ * budget. Low priority changes are summarized, a single patch larger than
+ * the budget is truncated, and regular changes are compressed (files
+ * outside the important patterns first, then largest first) while the PR
+ * would need more than a handful of batches.
+ * @param changes - Analyzed changes
+ * @param budget - Tokens available for changes in one request
+ * @returns One or more batches, API changes first
+ */
+export function planBatches(changes: CodeChange[], budget: number): PromptBatch[] {
+  const order: Record<ChangePriority, number> = { api: 0, normal: 1, low: 2 };
+  const entries = changes
+    .map((change) => {
+      const priority = classifyChange(change);
+      if (priority === "low") {
+        const reason = change.significance.isTest
+          ? "tests"
+          : lowPriorityReason(change.file) || "low priority";
+        return toEntry(change, priority, renderCompressed(change, reason), true);
+      }
+      return toEntry(change, priority, renderVerbatim(change, budget), false);
+    })
+    .sort((a, b) => order[a.priority] - order[b.priority]);
+
+  let batches = pack(entries, budget);
+  while (batches.length > MAX_BATCHES) {
+    const largest = entries
+      .filter((entry) => entry.priority === "normal" && !entry.compressed)
+      .sort(
+        (a, b) =>
+          Number(a.change.significance.isImportant) - Number(b.change.significance.isImportant) ||
+          b.tokens - a.tokens
+      )[0];
+    if (!largest) {
+      break;
+    }
+    Object.assign(
+      largest,
+      toEntry(largest.change, "normal", renderCompressed(largest.change, "large PR"), true)
+    );
+    batches = pack(entries, budget);
+  }
+
+  const compressed = entries.filter((entry) => entry.compressed).length;
+  console.log(
+    `📦 ${changes.length} changed file(s) in ${batches.length} batch(es), ${compressed} summarized`
+  );
+  return batches;
+}
@@ -0,0 +1,21 @@
+/**
+ * Normalize the configured docs directory: no leading "./" or trailing slash
+ * @param docsPath - docsPath from the configuration
+ * @returns The directory, empty for the repository root
+ */
+export function docsRoot(docsPath: string): string {
+  return docsPath.replace(/^\.?\/?|\/$/g, "");
+}
+
+/**
+ * Convert a doc file path to the id Mintlify uses for the page in
+ * navigation and links: relative to the docs directory, without extension
+ * @param path - Doc file path in the repository
+ * @param docsPath - docsPath from the configuration
+ * @returns The page id
+ */
+export function docsPageId(path: string, docsPath: string): string {
+  const root = docsRoot(docsPath);
+  const relative = root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+  return relative.replace(/\.[^./]+$/, "");
+}
@@ -0,0 +1,123 @@
+import { Octokit } from "@octokit/rest";
+import type { DocStructure } from "./types";
+
+// A blob never changes for a SHA, and a DocStructure never changes for the
+// SHA of its docs tree. Both are kept in memory, least recently used first
+// out, so runs against an unchanged docs branch skip the API and the LLM.
+// Source files read for dependency graphs share the blob cache, which is
+// bounded by size as these add up to hundreds of files per repository.
+const MAX_CACHED_BLOB_BYTES = 64 * 1024 * 1024;
+const MAX_CACHED_STRUCTURES = 50;
+
+const blobCache = new Map<string, string>();
+let cachedBlobBytes = 0;
+const structureCache = new Map<string, DocStructure>();
+
+export interface TreeEntry {
+  path: string;
+  type: "blob" | "tree";
+  sha: string;
+}
+
+function remember<T>(cache: Map<string, T>, key: string, value: T, limit: number): void {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > limit) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+function rememberBlob(sha: string, content: string): void {
+  cachedBlobBytes -= blobCache.get(sha)?.length ?? 0;
+  blobCache.delete(sha);
+  blobCache.set(sha, content);
+  cachedBlobBytes += content.length;
+  while (cachedBlobBytes > MAX_CACHED_BLOB_BYTES && blobCache.size > 1) {
+    const [oldest, evicted] = blobCache.entries().next().value as [string, string];
+    blobCache.delete(oldest);
+    cachedBlobBytes -= evicted.length;
+  }
+}
+
+/**
+ * List every file and directory of a repository at a ref, with a single
+ * recursive tree request
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Branch, tag or commit SHA
+ * @returns The SHA of the root tree and its entries, parents before children
+ */
+export async function fetchTree(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<{ sha: string; entries: TreeEntry[] }> {
+  const { data } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: "true",
+  });
+  if (data.truncated) {
+    console.log(
+      `⚠️ The tree of ${owner}/${repo}@${ref} is too large for a single request, some files are missing`
+    );
+  }
+  return {
+    sha: data.sha,
+    entries: data.tree.filter(
+      (item) => item.path && item.sha && (item.type === "blob" || item.type === "tree")
+    ) as TreeEntry[],
+  };
+}
+
+/**
+ * Read a blob as text, from the cache when it was read before
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - Blob SHA, from a tree entry
+ * @returns The blob content
+ */
+export async function readBlob(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<string> {
+  const cached = blobCache.get(sha);
+  if (cached !== undefined) {
+    rememberBlob(sha, cached);
+    return cached;
+  }
+  const { data } = await octokit.git.getBlob({ owner, repo, file_sha: sha });
+  const content = Buffer.from(data.content, "base64").toString("utf-8");
+  rememberBlob(sha, content);
+  return content;
+}
+
+/**
+ * Get the DocStructure analyzed for a docs tree, if any. The caller gets a
+ * copy it may change.
+ * @param key - Repository and SHA of the docs tree
+ * @returns The cached structure, undefined if the tree wasn't analyzed yet
+ */
+export function getCachedDocStructure(key: string): DocStructure | undefined {
+  const cached = structureCache.get(key);
+  if (!cached) {
+    return undefined;
+  }
+  remember(structureCache, key, cached, MAX_CACHED_STRUCTURES);
+  return structuredClone(cached);
+}
+
+/**
+ * Cache the DocStructure analyzed for a docs tree
+ * @param key - Repository and SHA of the docs tree
+ * @param structure - Structure with its references
+ */
+export function cacheDocStructure(key: string, structure: DocStructure): void {
+  remember(structureCache, key, structuredClone(structure), MAX_CACHED_STRUCTURES);
+}
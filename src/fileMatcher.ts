@@ -0,0 +1,77 @@
+import micromatch from "micromatch";
+import { OPENAPI_FILE_PATTERN } from "./analyzers/openapi";
+import { findMapping } from "./pathMappings";
+import type { DocUpdateConfig } from "./types";
+
+// How a file of the repository is treated, with the reason to log
+export interface FileMatch {
+  included: boolean; // Not ignored, its changes are analyzed
+  important: boolean; // Matches an important pattern, weighs more in planning
+  reason: string;
+}
+
+/**
+ * Match a file against the ignore and important patterns of the
+ * configuration. Ignore patterns win, except for OpenAPI specs (presets
+ * ignore directories like public/ where specs are often generated, and the
+ * API reference is built from them) and files mapped to doc pages by
+ * pathMappings, which are documented by definition.
+ * @param file - File path in the repository
+ * @param matchRules - Match rules of the full configuration
+ * @returns Whether the file is included and important, and why
+ */
+export function matchFile(
+  file: string,
+  matchRules: Pick<
+    DocUpdateConfig["matchRules"],
+    "ignorePatterns" | "importantPatterns" | "pathMappings"
+  >
+): FileMatch {
+  if (OPENAPI_FILE_PATTERN.test(file)) {
+    return { included: true, important: true, reason: "OpenAPI spec" };
+  }
+  const mapping = findMapping([file], matchRules.pathMappings);
+  if (mapping) {
+    return { included: true, important: true, reason: `mapped to docs by "${mapping}"` };
+  }
+  const ignored = matchRules.ignorePatterns.find((pattern) => micromatch.isMatch(file, pattern));
+  if (ignored) {
+    return { included: false, important: false, reason: `matches ignore pattern "${ignored}"` };
+  }
+  const important = matchRules.importantPatterns.find((pattern) =>
+    micromatch.isMatch(file, pattern)
+  );
+  return important
+    ? { included: true, important: true, reason: `matches important pattern "${important}"` }
+    : { included: true, important: false, reason: "matches no pattern" };
+}
+
+/**
+ * Tell whether a directory may hold important files, to decide whether to
+ * walk down to it. Patterns starting with a glob, like those of the Django
+ * and Go presets, may match in any directory that isn't ignored.
+ * @param dir - Directory path in the repository
+ * @param matchRules - Match rules of the full configuration
+ * @returns true if an important pattern can match below the directory
+ */
+export function mayContainImportant(
+  dir: string,
+  matchRules: Pick<DocUpdateConfig["matchRules"], "ignorePatterns" | "importantPatterns">
+): boolean {
+  if (matchRules.ignorePatterns.some((pattern) => micromatch.isMatch(dir, pattern))) {
+    return false;
+  }
+  const segments = dir.split("/");
+  return matchRules.importantPatterns.some((pattern) => {
+    const parts = pattern.split("/");
+    for (let i = 0; i < parts.length && i < segments.length; i++) {
+      if (micromatch.scan(parts[i]).isGlob) {
+        return true;
+      }
+      if (parts[i] !== segments[i]) {
+        return false;
+      }
+    }
+    return parts.length > segments.length;
+  });
+}
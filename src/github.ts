@@ -0,0 +1,327 @@
+import { Octokit } from "@octokit/rest";
+import type { DocUpdateConfig, DocsRepository } from "./types";
+
+// Hidden markers used to find the comments the agent left on a source PR
+const BOT_COMMENT_MARKER = "<!-- docs-updater:docs-pr -->";
+export const CONFIG_ERROR_COMMENT_MARKER = "<!-- docs-updater:config-error -->";
+
+// Git trailer added to commits the agent pushes onto source PR branches, so
+// the synchronize event they trigger doesn't start another run
+export const AGENT_COMMIT_TRAILER = "Generated-by: docs-updater";
+
+/**
+ * Check whether a commit was pushed by the agent itself
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param sha - Commit SHA
+ * @returns true if the commit message carries the agent's trailer
+ */
+export async function isAgentCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<boolean> {
+  const { data: commit } = await octokit.repos.getCommit({ owner, repo, ref: sha });
+  return commit.commit.message.includes(AGENT_COMMIT_TRAILER);
+}
+
+/**
+ * Resolve the repository and branch the docs live in: the configured docs
+ * repository, or the source repository itself
+ * @param octokit - Octokit instance
+ * @param config - Full configuration
+ * @param owner - Source repository owner
+ * @param repo - Source repository name
+ * @returns The docs repository, with its default branch if none is configured
+ */
+export async function resolveDocsRepo(
+  octokit: Octokit,
+  config: DocUpdateConfig,
+  owner: string,
+  repo: string
+): Promise<DocsRepository> {
+  const docsOwner = config.docsRepo?.owner || owner;
+  const docsRepo = config.docsRepo?.repo || repo;
+  let branch = config.docsBranch;
+
+  if (!branch) {
+    const { data } = await octokit.repos.get({ owner: docsOwner, repo: docsRepo });
+    branch = data.default_branch;
+  }
+
+  return { owner: docsOwner, repo: docsRepo, branch };
+}
+
+/**
+ * Check whether the docs live in the source repository itself
+ * @param docsRepo - Docs repository
+ * @param owner - Source repository owner
+ * @param repo - Source repository name
+ * @returns true for the same repository
+ */
+export function isSourceRepository(
+  docsRepo: DocsRepository,
+  owner: string,
+  repo: string
+): boolean {
+  return (
+    docsRepo.owner.toLowerCase() === owner.toLowerCase() &&
+    docsRepo.repo.toLowerCase() === repo.toLowerCase()
+  );
+}
+
+/**
+ * Reference a source PR from the docs repository: "#12" in the same
+ * repository, "owner/repo#12" across repositories
+ * @param docsRepo - Docs repository the reference is written in
+ * @param owner - Source repository owner
+ * @param repo - Source repository name
+ * @param pullNumber - Source PR number
+ * @returns The reference, autolinked by GitHub
+ */
+export function formatPullRequestReference(
+  docsRepo: DocsRepository,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): string {
+  return isSourceRepository(docsRepo, owner, repo)
+    ? `#${pullNumber}`
+    : `${owner}/${repo}#${pullNumber}`;
+}
+
+/**
+ * Get the docs branch for a source PR. The name is stable so every run for
+ * the same PR updates one branch and one docs PR. In a separate docs
+ * repository it includes the source repository, which may not be the only
+ * one writing there.
+ * @param config - Full configuration
+ * @param docsRepo - Docs repository
+ * @param owner - Source repository owner
+ * @param repo - Source repository name
+ * @param pullNumber - Source PR number
+ * @returns The branch name
+ */
+export function getDocsBranchName(
+  config: DocUpdateConfig,
+  docsRepo: DocsRepository,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): string {
+  const prefix = config.prConfig.branchPrefix || "docs/update";
+  return isSourceRepository(docsRepo, owner, repo)
+    ? `${prefix}-pr-${pullNumber}`
+    : `${prefix}-${owner}-${repo}-pr-${pullNumber}`;
+}
+
+/**
+ * Find the open docs PR for a branch
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param branch - Docs branch
+ * @returns The PR, or undefined if there is no open PR for the branch
+ */
+export async function findOpenDocsPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string
+) {
+  const { data: pulls } = await octokit.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    state: "open",
+  });
+  return pulls[0];
+}
+
+/**
+ * Get the commit a PR branched from. The base SHA of a PR is the tip of the
+ * base branch, which moves on as other PRs are merged: reading "before"
+ * versions there would count what the base branch added as PR changes.
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param base - Base SHA of the PR
+ * @param head - Head SHA of the PR
+ * @returns The merge base SHA, the base SHA if it can't be found
+ */
+export async function getMergeBase(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<string> {
+  try {
+    const { data } = await octokit.repos.compareCommits({
+      owner,
+      repo,
+      base,
+      head,
+      per_page: 1,
+    });
+    return data.merge_base_commit.sha;
+  } catch (error: any) {
+    console.log(
+      `⚠️ Could not find the merge base of ${base} and ${head}, using the base branch: ${error.message || error}`
+    );
+    return base;
+  }
+}
+
+// GitHub never lists more files than this for a PR
+const MAX_PULL_REQUEST_FILES = 3000;
+
+/**
+ * List every file changed by a PR, following pagination
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param pullNumber - PR number
+ * @returns The changed files, at most 3000 as GitHub doesn't list more
+ */
+export async function listPullRequestFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+) {
+  const files = [];
+  for (let page = 1; files.length < MAX_PULL_REQUEST_FILES; page++) {
+    const { data } = await octokit.pulls.listFiles({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: 100,
+      page,
+    });
+    files.push(...data);
+    if (data.length < 100) {
+      break;
+    }
+  }
+  if (files.length >= MAX_PULL_REQUEST_FILES) {
+    console.log(
+      `⚠️ ${owner}/${repo}#${pullNumber} changes more than ${MAX_PULL_REQUEST_FILES} files, only the first ${MAX_PULL_REQUEST_FILES} are analyzed`
+    );
+  }
+  return files;
+}
+
+/**
+ * Create the agent's comment on a PR, or edit it if it was already posted
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param issueNumber - PR number
+ * @param body - Comment body (the marker is added automatically)
+ * @param marker - Identifies the comment, one comment is kept per marker
+ */
+export async function upsertBotComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  body: string,
+  marker: string = BOT_COMMENT_MARKER
+): Promise<void> {
+  let existing: { id: number } | undefined;
+  for (let page = 1; !existing; page++) {
+    const { data: comments } = await octokit.issues.listComments({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100,
+      page,
+    });
+    existing = comments.find((comment) =>
+      comment.body?.includes(marker)
+    );
+    if (comments.length < 100) {
+      break;
+    }
+  }
+  const markedBody = `${marker}\n${body}`;
+
+  if (existing) {
+    await octokit.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body: markedBody,
+    });
+  } else {
+    await octokit.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: markedBody,
+    });
+  }
+}
+
+/**
+ * Close the docs PR of a source PR and delete its branch
+ * @param octokit - Octokit instance
+ * @param owner - Source repository owner
+ * @param repo - Source repository name
+ * @param pullNumber - Source PR number
+ * @param config - Full configuration
+ * @param docsRepo - Repository the docs PR was opened in
+ * @returns The number of the closed docs PR, if there was one
+ */
+export async function closeDocsPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  config: DocUpdateConfig,
+  docsRepo: DocsRepository
+): Promise<number | undefined> {
+  const branch = getDocsBranchName(config, docsRepo, owner, repo, pullNumber);
+  const docsPR = await findOpenDocsPullRequest(
+    octokit,
+    docsRepo.owner,
+    docsRepo.repo,
+    branch
+  );
+  const reference = formatPullRequestReference(docsRepo, owner, repo, pullNumber);
+
+  if (docsPR) {
+    await octokit.issues.createComment({
+      owner: docsRepo.owner,
+      repo: docsRepo.repo,
+      issue_number: docsPR.number,
+      body: `Closing: ${reference} was closed without being merged.`,
+    });
+    await octokit.pulls.update({
+      owner: docsRepo.owner,
+      repo: docsRepo.repo,
+      pull_number: docsPR.number,
+      state: "closed",
+    });
+    console.log(`Closed docs PR ${docsRepo.owner}/${docsRepo.repo}#${docsPR.number}`);
+  }
+
+  try {
+    await octokit.git.deleteRef({
+      owner: docsRepo.owner,
+      repo: docsRepo.repo,
+      ref: `heads/${branch}`,
+    });
+    console.log(`Deleted branch ${branch}`);
+  } catch (error: any) {
+    // Already gone
+    if (error.status !== 404 && error.status !== 422) {
+      throw error;
+    }
+  }
+
+  return docsPR?.number;
+}
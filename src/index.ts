@@ -1,44 +1,49 @@
 import * as dotenv from "dotenv";
-import { createAgent, createHttpLLM } from "spinai";
+import { createAgent } from "spinai";
+import type { SpinAiContext } from "spinai";
 import { DocConfig, ReviewState } from "./types";
 import { createFullConfig } from "./config";
 import { actions } from "./actions";
 import { startServer } from "./server";
 import { initialDocumentationActions } from "./actions/initialDocsActions";
+import { resolveLLMSettings } from "./llm";
+import { createAgentLLM } from "./llm/agentLLM";
 
 dotenv.config();
 
 export interface CreateDocUpdateAgentOptions {
   config?: Partial<DocConfig>;
-  openAiKey?: string;
   githubToken?: string;
   port?: number;
+  onActionStart?: ActionStartListener;
 }
 
-
-
-const groqLLM = createHttpLLM({
-  endpoint: "https://api.groq.com/openai/v1/chat/completions",
-  apiKey: process.env.GROQ_API_KEY, // Ensure the API key is set in your environment
-  headers: {
-    "Authorization": `Bearer ${process.env.GROQ_API_KEY}`,
-    "Content-Type": "application/json"
-  },
-  // Transform request body to match Groq API expectations
-  transformRequest: (body: any) => {
-    return ({
-      model: "llama-3.1-8b-instant", // Change if using another Groq model
-      messages: body.messages,
-      temperature: body.temperature ?? 0.7,
-      max_tokens: body.max_tokens ?? 1024,
-      // response_format: { type: "json_object" },
-    })
-  },
-  // Transform response to extract the text content
-  transformResponse: (response: any) => {
-    return response.choices[0]?.message?.content || ""
+export type ActionStartListener = (actionId: string, state: any) => void;
+
+/**
+ * Wrap actions so a listener is notified before each one runs.
+ * Used by the job queue to report the current step of a run.
+ * @param actionList - Actions to wrap
+ * @param onActionStart - Listener called with the action id and agent state
+ * @returns The wrapped actions
+ */
+function withActionListener<
+  T extends { id: string; run: (...args: any[]) => any },
+>(
+  actionList: T[],
+  onActionStart?: ActionStartListener
+): T[] {
+  if (!onActionStart) {
+    return actionList;
   }
-});
+  return actionList.map((action) => ({
+    ...action,
+    run(context: SpinAiContext, parameters?: Record<string, unknown>) {
+      onActionStart(action.id, context.state);
+      return action.run(context, parameters);
+    },
+  }));
+}
 
 
 export function createDocUpdateAgent(
@@ -47,10 +52,8 @@ export function createDocUpdateAgent(
   const config = createFullConfig(options.config || {});
 
   // Validate required credentials
-  const openAiKey = options.openAiKey || process.env.OPENAI_API_KEY;
-  const openAiModel = process.env.OPENAI_MODEL || "llama-3.3-70b-versatile"
+  const llmSettings = resolveLLMSettings(config.llmConfig);
   const githubToken = options.githubToken || process.env.GITHUB_TOKEN;
-  if (!openAiKey) throw new Error("OpenAI API key is required");
   if (!githubToken) throw new Error("GitHub token is required");
 
   // Create the agent
@@ -63,8 +66,8 @@ export function createDocUpdateAgent(
     4. Generate precise, accurate documentation updates
     5. Update navigation structure in mint.json as needed
     6. ${config.prConfig.updateOriginalPr ? "Update the original PR" : "Create a new PR"} with the documentation updates`,
-    actions,
-    llm: groqLLM,
+    actions: withActionListener(actions, options.onActionStart),
+    llm: createAgentLLM(llmSettings),
     agentId: "mintlify-update-agent",
     // Optional: Enable SpinAI monitoring
     // spinApiKey: process.env.SPINAI_API_KEY,
@@ -76,18 +79,18 @@ export function createDocUpdateAgent(
 
 export interface CreateInitialDocsAgentOptions {
   config?: Partial<DocConfig>;
-  openAiKey?: string;
   githubToken?: string;
   port?: number;
+  onActionStart?: ActionStartListener;
 }
 export function createInitialDocsAgent(
   options: CreateInitialDocsAgentOptions = {}
 ) {
+  const config = createFullConfig(options.config || {});
+
   // Validate required credentials
-  const openAiKey = options.openAiKey || process.env.OPENAI_API_KEY;
-  const openAiModel = process.env.OPENAI_MODEL || "llama-3.3-70b-versatile"
+  const llmSettings = resolveLLMSettings(config.llmConfig);
   const githubToken = options.githubToken || process.env.GITHUB_TOKEN;
-  if (!openAiKey) throw new Error("OpenAI API key is required");
   if (!githubToken) throw new Error("GitHub token is required");
 
   // Create the agent
@@ -99,8 +102,11 @@ When triggered, you:
 3. Generate concise, accurate MDX documentation for each file.
 4. Save the generated documentation in the docs/ folder.
 5. Create a pull request with the new documentation.`,
-    actions: initialDocumentationActions,
-    llm: groqLLM,
+    actions: withActionListener(
+      initialDocumentationActions,
+      options.onActionStart
+    ),
+    llm: createAgentLLM(llmSettings),
     agentId: "initial-docs-agent",
   });
 
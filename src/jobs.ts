@@ -0,0 +1,249 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Job, JobType } from "./types";
+
+export interface JobResult {
+  pullRequestUrl?: string;
+  result?: Record<string, unknown>;
+}
+
+export type JobHandler = (job: Job) => Promise<JobResult>;
+
+export interface JobQueueOptions {
+  // JSON file the queue is persisted to
+  file: string;
+  // Maximum number of jobs processed at the same time
+  concurrency: number;
+  handlers: Record<JobType, JobHandler>;
+  // Number of finished jobs kept in the file
+  retention?: number;
+}
+
+export interface EnqueueOptions {
+  // Serialize jobs sharing this key and coalesce them when debouncing
+  key?: string;
+  // GitHub delivery id, recorded for idempotency
+  deliveryId?: string;
+  // Delay before the job runs. A queued job with the same key and type is
+  // updated with the new input and delayed again instead of adding a job.
+  debounceMs?: number;
+}
+
+export interface JobQueue {
+  enqueue(
+    type: JobType,
+    input: Record<string, unknown>,
+    options?: EnqueueOptions
+  ): Job;
+  get(id: string): Job | undefined;
+  findByDelivery(deliveryId: string): Job | undefined;
+  cancel(key: string): Job[];
+  list(): Job[];
+  setCurrentAction(id: string, action: string): void;
+}
+
+const DEFAULT_RETENTION = 200;
+
+function loadJobs(file: string): Job[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  try {
+    const jobs: Job[] = JSON.parse(fs.readFileSync(file, "utf-8"));
+    // Jobs that were running when the process stopped are picked up again
+    return jobs.map((job) =>
+      job.state === "running"
+        ? { ...job, state: "queued", startedAt: undefined, currentAction: undefined }
+        : job
+    );
+  } catch (error) {
+    console.error(`❌ Could not read job queue from ${file}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Create a persistent job queue processed by a background worker.
+ * Jobs are written to a JSON file on every state change so a restart
+ * resumes queued and interrupted jobs.
+ * @param options - Queue file, concurrency and a handler per job type
+ * @returns The queue
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const retention = options.retention ?? DEFAULT_RETENTION;
+  const jobs = new Map<string, Job>(
+    loadJobs(options.file).map((job) => [job.id, job])
+  );
+  let running = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  function persist() {
+    const finished = Array.from(jobs.values())
+      .filter((job) => ["completed", "failed", "cancelled"].includes(job.state))
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+    for (const job of finished.slice(retention)) {
+      jobs.delete(job.id);
+    }
+
+    fs.mkdirSync(path.dirname(options.file), { recursive: true });
+    const tmpFile = `${options.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(Array.from(jobs.values()), null, 2));
+    fs.renameSync(tmpFile, options.file);
+  }
+
+  function update(job: Job, changes: Partial<Job>) {
+    Object.assign(job, changes);
+    try {
+      persist();
+    } catch (error) {
+      console.error("❌ Could not persist job queue:", error);
+    }
+  }
+
+  async function run(job: Job) {
+    running++;
+    update(job, { state: "running", startedAt: new Date().toISOString() });
+    console.log(`⚙️ Job ${job.id} (${job.type}) started`);
+
+    try {
+      const result = await options.handlers[job.type](job);
+      update(job, {
+        state: "completed",
+        finishedAt: new Date().toISOString(),
+        currentAction: undefined,
+        pullRequestUrl: result.pullRequestUrl,
+        result: result.result,
+      });
+      console.log(`✅ Job ${job.id} completed`);
+    } catch (error) {
+      update(job, {
+        state: "failed",
+        finishedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      console.error(`❌ Job ${job.id} failed:`, error);
+    } finally {
+      running--;
+      drain();
+    }
+  }
+
+  function drain() {
+    const now = Date.now();
+    const queued = Array.from(jobs.values())
+      .filter((job) => job.state === "queued")
+      .sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+    const activeKeys = new Set(
+      Array.from(jobs.values())
+        .filter((job) => job.state === "running" && job.key)
+        .map((job) => job.key)
+    );
+
+    let nextRunAt: number | undefined;
+    for (const job of queued) {
+      if (running >= options.concurrency) {
+        break;
+      }
+      const runAt = job.runAfter ? Date.parse(job.runAfter) : 0;
+      if (runAt > now) {
+        nextRunAt = Math.min(nextRunAt ?? runAt, runAt);
+        continue;
+      }
+      // Only one run at a time per key, the next one starts when it finishes
+      if (job.key && activeKeys.has(job.key)) {
+        continue;
+      }
+      if (job.key) {
+        activeKeys.add(job.key);
+      }
+      void run(job);
+    }
+
+    // Wake up again when the earliest debounced job is due
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (nextRunAt !== undefined) {
+      timer = setTimeout(drain, nextRunAt - now);
+    }
+  }
+
+  // Resume anything left over from a previous process
+  setImmediate(drain);
+
+  return {
+    enqueue(type, input, enqueueOptions = {}) {
+      const { key, deliveryId, debounceMs } = enqueueOptions;
+      const runAfter = debounceMs
+        ? new Date(Date.now() + debounceMs).toISOString()
+        : undefined;
+      const deliveryIds = deliveryId ? [deliveryId] : [];
+
+      // Coalesce into a job that is still waiting for its debounce delay
+      const pending = debounceMs
+        ? Array.from(jobs.values()).find(
+            (job) => job.state === "queued" && job.type === type && job.key === key
+          )
+        : undefined;
+      if (key && pending) {
+        update(pending, {
+          input,
+          runAfter,
+          deliveryIds: [...(pending.deliveryIds || []), ...deliveryIds],
+        });
+        setImmediate(drain);
+        return pending;
+      }
+
+      const job: Job = {
+        id: randomUUID(),
+        type,
+        state: "queued",
+        input,
+        key,
+        deliveryIds,
+        createdAt: new Date().toISOString(),
+        runAfter,
+      };
+      jobs.set(job.id, job);
+      update(job, {});
+      setImmediate(drain);
+      return job;
+    },
+
+    get(id) {
+      return jobs.get(id);
+    },
+
+    findByDelivery(deliveryId) {
+      return Array.from(jobs.values()).find((job) =>
+        job.deliveryIds?.includes(deliveryId)
+      );
+    },
+
+    cancel(key) {
+      const cancelled = Array.from(jobs.values()).filter(
+        (job) => job.state === "queued" && job.key === key
+      );
+      for (const job of cancelled) {
+        update(job, { state: "cancelled", finishedAt: new Date().toISOString() });
+      }
+      return cancelled;
+    },
+
+    list() {
+      return Array.from(jobs.values()).sort((a, b) =>
+        a.createdAt < b.createdAt ? 1 : -1
+      );
+    },
+
+    setCurrentAction(id, action) {
+      const job = jobs.get(id);
+      if (job && job.state === "running") {
+        update(job, { currentAction: action });
+      }
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { createHttpLLM } from "spinai";
+import { anthropicHeaders, toAnthropicBody } from "./anthropic";
+import { resolveFixturesDir, resolveLLMMode, withClientRecording } from "./recording";
+import type { LLMSettings } from "./types";
+
+/**
+ * Create the LLM the agents use to choose their next action, talking to the
+ * same provider as the actions. Like the actions' calls, its calls are
+ * recorded or replayed according to LLM_MODE.
+ * @param settings - Resolved provider settings
+ * @returns The SpinAI LLM
+ */
+export function createAgentLLM(settings: LLMSettings) {
+  const llm = createHttpAgentLLM(settings);
+  const mode = resolveLLMMode();
+  return mode === "live"
+    ? llm
+    : withClientRecording(llm, settings.model, mode, resolveFixturesDir());
+}
+
+function createHttpAgentLLM(settings: LLMSettings) {
+  if (settings.provider === "anthropic") {
+    return createHttpLLM({
+      endpoint: `${settings.baseUrl}/messages`,
+      apiKey: settings.apiKey,
+      headers: anthropicHeaders(settings),
+      transformRequest: (body: any) =>
+        toAnthropicBody(settings.model, {
+          messages: body.messages,
+          temperature: body.temperature ?? 0.7,
+          maxTokens: body.max_tokens ?? 1024,
+        }),
+      transformResponse: (response: any) =>
+        (response.content || [])
+          .filter((block: any) => block.type === "text")
+          .map((block: any) => block.text)
+          .join(""),
+    });
+  }
+
+  return createHttpLLM({
+    endpoint: `${settings.baseUrl}/chat/completions`,
+    apiKey: settings.apiKey,
+    headers: {
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    transformRequest: (body: any) => ({
+      model: settings.model,
+      messages: body.messages,
+      temperature: body.temperature ?? 0.7,
+      max_tokens: body.max_tokens ?? 1024,
+    }),
+    transformResponse: (response: any) =>
+      response.choices[0]?.message?.content || "",
+  });
+}
@@ -0,0 +1,80 @@
+import type { CompletionRequest, LLMProvider, LLMSettings } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Build the headers of a request to the Anthropic Messages API
+ * @param settings - Resolved provider settings
+ * @returns The request headers
+ */
+export function anthropicHeaders(settings: LLMSettings): Record<string, string> {
+  return {
+    "x-api-key": settings.apiKey || "",
+    "anthropic-version": ANTHROPIC_VERSION,
+    "Content-Type": "application/json",
+  };
+}
+
+/**
+ * Convert chat messages to a Messages API body: system messages move to
+ * the top-level system prompt
+ * @param model - Model name
+ * @param request - Messages and sampling options
+ * @returns The request body
+ */
+export function toAnthropicBody(model: string, request: CompletionRequest) {
+  const system = request.messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content);
+  const messages = request.messages
+    .filter((message) => message.role !== "system")
+    .map((message) => ({ role: message.role, content: message.content }));
+
+  if (request.json) {
+    system.push("Respond with a single JSON object and nothing else.");
+    // Prefilling the answer keeps the model from adding a preamble
+    messages.push({ role: "assistant", content: "{" });
+  }
+
+  return {
+    model,
+    system: system.join("\n\n") || undefined,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+  };
+}
+
+/**
+ * Create a provider for the Anthropic Messages API
+ * @param settings - Resolved provider settings
+ * @returns The provider
+ */
+export function createAnthropicProvider(settings: LLMSettings): LLMProvider {
+  return {
+    name: settings.provider,
+    model: settings.model,
+    async complete(request: CompletionRequest) {
+      const response = await fetch(`${settings.baseUrl}/messages`, {
+        method: "POST",
+        headers: anthropicHeaders(settings),
+        body: JSON.stringify(toAnthropicBody(settings.model, request)),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Anthropic request failed with status ${response.status}: ${await response.text()}`
+        );
+      }
+
+      const data: any = await response.json();
+      const text = (data.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("");
+      // Put back the prefilled opening brace
+      return request.json ? `{${text}` : text;
+    },
+  };
+}
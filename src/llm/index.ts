@@ -0,0 +1,79 @@
+import type { DocUpdateConfig, LLMStage } from "../types";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAICompatibleProvider } from "./openai";
+import { resolveLLMSettings } from "./settings";
+import { resolveFixturesDir, resolveLLMMode, withRecording } from "./recording";
+import type { CompletionRequest, LLMProvider, LLMSettings } from "./types";
+
+export { LLM_PROVIDERS, LLM_STAGES, resolveLLMSettings } from "./settings";
+export { resolveLLMMode } from "./recording";
+export { completeStructured, StructuredOutputError } from "./structured";
+export type { LLMMode } from "./recording";
+export type { CompletionRequest, LLMMessage, LLMProvider, LLMSettings } from "./types";
+
+/**
+ * Create a provider for resolved settings
+ * @param settings - Provider, model and connection settings
+ * @returns The provider
+ */
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case "anthropic":
+      return createAnthropicProvider(settings);
+    case "openai":
+    case "groq":
+    case "ollama":
+      return createOpenAICompatibleProvider(settings);
+  }
+}
+
+// Providers are reused across actions and runs with the same settings
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Get the provider for one stage of the pipeline. The stage's settings in
+ * llmConfig.stages override the configured provider and model, and the
+ * sampling options the stage passes to complete().
+ * @param config - Full configuration
+ * @param stage - Pipeline stage making the calls
+ * @returns The provider
+ * @throws Error if the provider is unknown or its API key is missing
+ */
+export function getLLMProvider(
+  config: DocUpdateConfig,
+  stage?: LLMStage
+): LLMProvider {
+  const stageConfig = (stage && config.llmConfig?.stages?.[stage]) || {};
+  const settings = resolveLLMSettings({
+    provider: stageConfig.provider || config.llmConfig?.provider,
+    model: stageConfig.model || config.llmConfig?.model,
+  });
+
+  const mode = resolveLLMMode();
+  const key = `${mode}:${settings.provider}:${settings.model}:${settings.baseUrl}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createLLMProvider(settings);
+    // Recording wraps the raw provider so fixtures are keyed on the final request
+    if (mode !== "live") {
+      provider = withRecording(provider, mode, resolveFixturesDir());
+    }
+    providers.set(key, provider);
+  }
+
+  const { temperature, maxTokens, json } = stageConfig;
+  if (temperature === undefined && maxTokens === undefined && json === undefined) {
+    return provider;
+  }
+  const base = provider;
+  return {
+    ...base,
+    complete: (request: CompletionRequest) =>
+      base.complete({
+        ...request,
+        temperature: temperature ?? request.temperature,
+        maxTokens: maxTokens ?? request.maxTokens,
+        json: json ?? request.json,
+      }),
+  };
+}
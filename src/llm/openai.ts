@@ -0,0 +1,31 @@
+import OpenAI from "openai";
+import type { CompletionRequest, LLMProvider, LLMSettings } from "./types";
+
+/**
+ * Create a provider for any OpenAI-compatible chat completions API:
+ * OpenAI itself, Groq and local servers such as Ollama
+ * @param settings - Resolved provider settings
+ * @returns The provider
+ */
+export function createOpenAICompatibleProvider(settings: LLMSettings): LLMProvider {
+  const client = new OpenAI({
+    // Local servers ignore the key, but the client requires one
+    apiKey: settings.apiKey || settings.provider,
+    baseURL: settings.baseUrl,
+  });
+
+  return {
+    name: settings.provider,
+    model: settings.model,
+    async complete(request: CompletionRequest) {
+      const response = await client.chat.completions.create({
+        model: settings.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: "json_object" } : undefined,
+      });
+      return response.choices[0]?.message?.content || "";
+    },
+  };
+}
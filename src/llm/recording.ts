@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+export type LLMMode = "live" | "record" | "replay";
+
+const LLM_MODES: LLMMode[] = ["live", "record", "replay"];
+
+interface Fixture<Request = CompletionRequest, Response = string> {
+  model: string;
+  request: Request;
+  response: Response;
+  recordedAt: string;
+}
+
+/**
+ * Read the LLM mode from LLM_MODE: "live" (default) calls the provider,
+ * "record" also saves every response as a fixture, "replay" only serves
+ * saved fixtures and never touches the network
+ * @returns The mode
+ * @throws Error for an unknown mode
+ */
+export function resolveLLMMode(): LLMMode {
+  const mode = process.env.LLM_MODE || "live";
+  if (!(LLM_MODES as string[]).includes(mode)) {
+    throw new Error(
+      `Unknown LLM_MODE "${mode}", expected one of ${LLM_MODES.join(", ")}`
+    );
+  }
+  return mode as LLMMode;
+}
+
+/**
+ * Directory fixtures are recorded to and replayed from
+ * @returns LLM_FIXTURES_DIR, or fixtures/llm
+ */
+export function resolveFixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || path.join("fixtures", "llm");
+}
+
+/**
+ * Hash a request into the name of its fixture. Only what changes the answer
+ * is included, so the same call always maps to the same file.
+ * @param model - Model name
+ * @param request - Messages and sampling options
+ * @returns A hex SHA-256 digest
+ */
+export function fixtureKey(model: string, request: CompletionRequest): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? null,
+        maxTokens: request.maxTokens ?? null,
+        json: request.json ?? false,
+      })
+    )
+    .digest("hex");
+}
+
+function replayFixture<Response>(file: string, key: string, model: string): Response {
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No recorded LLM response for ${model} in ${file}. Run with LLM_MODE=record to record it.`
+    );
+  }
+  const fixture: Fixture<unknown, Response> = JSON.parse(fs.readFileSync(file, "utf-8"));
+  console.log(`📼 Replayed LLM response ${key.slice(0, 12)}`);
+  return fixture.response;
+}
+
+function recordFixture<Request, Response>(
+  dir: string,
+  file: string,
+  key: string,
+  fixture: Fixture<Request, Response>
+): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  console.log(`📼 Recorded LLM response ${key.slice(0, 12)}`);
+}
+
+/**
+ * Wrap a provider to record its responses or replay recorded ones
+ * @param provider - Provider doing the live calls
+ * @param mode - "record" or "replay"
+ * @param dir - Fixtures directory
+ * @returns The wrapped provider
+ */
+export function withRecording(
+  provider: LLMProvider,
+  mode: Exclude<LLMMode, "live">,
+  dir: string
+): LLMProvider {
+  return {
+    ...provider,
+    async complete(request: CompletionRequest) {
+      const key = fixtureKey(provider.model, request);
+      const file = path.join(dir, `${key}.json`);
+
+      if (mode === "replay") {
+        return replayFixture<string>(file, key, provider.model);
+      }
+
+      const response = await provider.complete(request);
+      recordFixture(dir, file, key, {
+        model: provider.model,
+        request,
+        response,
+        recordedAt: new Date().toISOString(),
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Wrap an LLM client this module doesn't build the requests of, like the
+ * SpinAI agent LLM, to record or replay the results of its complete()
+ * method. Calls are keyed on the model and the JSON of their arguments.
+ * @param client - Client doing the live calls
+ * @param model - Model name, part of the fixture key
+ * @param mode - "record" or "replay"
+ * @param dir - Fixtures directory
+ * @returns The wrapped client
+ */
+export function withClientRecording<T extends { complete: (...args: any[]) => Promise<any> }>(
+  client: T,
+  model: string,
+  mode: Exclude<LLMMode, "live">,
+  dir: string
+): T {
+  // Other members are inherited from the client, whatever its shape
+  return Object.assign(Object.create(client), {
+    async complete(...args: unknown[]) {
+      const key = createHash("sha256")
+        .update(JSON.stringify({ model, client: true, args }))
+        .digest("hex");
+      const file = path.join(dir, `${key}.json`);
+
+      if (mode === "replay") {
+        return replayFixture(file, key, model);
+      }
+
+      const response = await client.complete(...args);
+      recordFixture(dir, file, key, {
+        model,
+        request: args,
+        response,
+        recordedAt: new Date().toISOString(),
+      });
+      return response;
+    },
+  });
+}
@@ -0,0 +1,126 @@
+// Minimal validators for structured LLM responses. Each validator checks a
+// value, reports every problem with its JSON path and returns the value
+// with optional fields filled in.
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+export type Validator<T> = (value: unknown, path: string) => ValidationResult<T>;
+
+// Type of the values a validator accepts
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+// Marks a field that may be missing from an object
+interface OptionalValidator<T> extends Validator<T> {
+  optional: true;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * A string
+ * @param options - nonEmpty rejects blank strings
+ */
+export function string(options: { nonEmpty?: boolean } = {}): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== "string") {
+      return { value: "", errors: [`${path}: expected a string, got ${describe(value)}`] };
+    }
+    if (options.nonEmpty && !value.trim()) {
+      return { value, errors: [`${path}: must not be empty`] };
+    }
+    return { value, errors: [] };
+  };
+}
+
+/**
+ * A boolean
+ */
+export function boolean(): Validator<boolean> {
+  return (value, path) =>
+    typeof value === "boolean"
+      ? { value, errors: [] }
+      : { value: false, errors: [`${path}: expected a boolean, got ${describe(value)}`] };
+}
+
+/**
+ * One of a fixed set of strings
+ * @param values - Allowed values
+ */
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path) =>
+    (values as readonly unknown[]).includes(value)
+      ? { value: value as T, errors: [] }
+      : {
+          value: values[0],
+          errors: [
+            `${path}: expected one of ${values.map((item) => JSON.stringify(item)).join(", ")}, got ${JSON.stringify(value)}`,
+          ],
+        };
+}
+
+/**
+ * An array whose items all match a validator
+ * @param item - Item validator
+ */
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return { value: [], errors: [`${path}: expected an array, got ${describe(value)}`] };
+    }
+    const results = value.map((entry, index) => item(entry, `${path}[${index}]`));
+    return {
+      value: results.map((result) => result.value),
+      errors: results.flatMap((result) => result.errors),
+    };
+  };
+}
+
+/**
+ * A field that may be missing (or null), replaced by a fallback
+ * @param validator - Validator for a present value
+ * @param fallback - Value used when the field is missing
+ */
+export function optional<T>(validator: Validator<T>, fallback: T): OptionalValidator<T>;
+export function optional<T>(validator: Validator<T>): OptionalValidator<T | undefined>;
+export function optional<T>(validator: Validator<T>, fallback?: T): OptionalValidator<T | undefined> {
+  const result = ((value: unknown, path: string) =>
+    value === undefined || value === null
+      ? { value: fallback, errors: [] }
+      : validator(value, path)) as OptionalValidator<T | undefined>;
+  result.optional = true;
+  return result;
+}
+
+/**
+ * An object with known fields, unknown fields are dropped
+ * @param fields - Validator per field, required unless wrapped in optional()
+ */
+export function object<T extends Record<string, unknown>>(fields: {
+  [K in keyof T]: Validator<T[K]>;
+}): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { value: {} as T, errors: [`${path}: expected an object, got ${describe(value)}`] };
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    const errors: string[] = [];
+    for (const [key, validator] of Object.entries(fields) as [string, Validator<unknown>][]) {
+      if (!(key in input) && !(validator as Partial<OptionalValidator<unknown>>).optional) {
+        errors.push(`${path}.${key}: is required`);
+        continue;
+      }
+      const result = validator(input[key], `${path}.${key}`);
+      output[key] = result.value;
+      errors.push(...result.errors);
+    }
+    return { value: output as T, errors };
+  };
+}
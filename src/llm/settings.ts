@@ -0,0 +1,95 @@
+import type { LLMProviderName, LLMStage } from "../types";
+import type { LLMSettings } from "./types";
+
+interface ProviderDefaults {
+  model: string;
+  baseUrl: () => string;
+  // Environment variable holding the API key, local providers need none
+  apiKeyEnv?: string;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, ProviderDefaults> = {
+  openai: {
+    model: "gpt-4o-mini",
+    baseUrl: () => "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+  },
+  groq: {
+    model: "llama-3.3-70b-versatile",
+    baseUrl: () => "https://api.groq.com/openai/v1",
+    apiKeyEnv: "GROQ_API_KEY",
+  },
+  anthropic: {
+    model: "claude-3-5-sonnet-latest",
+    baseUrl: () => "https://api.anthropic.com/v1",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+  },
+  ollama: {
+    model: "llama3.1",
+    baseUrl: () => process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+  },
+};
+
+export const LLM_PROVIDERS = Object.keys(PROVIDER_DEFAULTS) as LLMProviderName[];
+
+export const LLM_STAGES: LLMStage[] = [
+  "analyzeChanges",
+  "analyzeDocReferences",
+  "generateUpdatePlan",
+  "generateFileContent",
+  "generateInitialDocs",
+];
+
+function isProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as string[]).includes(value);
+}
+
+// Without an explicit provider, use the first one whose API key is set
+function inferProvider(): LLMProviderName {
+  const provider = LLM_PROVIDERS.find((name) => {
+    const apiKeyEnv = PROVIDER_DEFAULTS[name].apiKeyEnv;
+    return apiKeyEnv && process.env[apiKeyEnv];
+  });
+  if (!provider) {
+    throw new Error(
+      "No LLM provider configured: set LLM_PROVIDER, or one of OPENAI_API_KEY, GROQ_API_KEY and ANTHROPIC_API_KEY"
+    );
+  }
+  return provider;
+}
+
+/**
+ * Resolve which provider and model to use. The configuration wins over the
+ * LLM_PROVIDER and LLM_MODEL environment variables, API keys always come
+ * from the environment.
+ * @param config - Provider and model from the configuration
+ * @returns The connection settings
+ * @throws Error if the provider is unknown or its API key is missing
+ */
+export function resolveLLMSettings(
+  config: { provider?: LLMProviderName; model?: string } = {}
+): LLMSettings {
+  const configured = config.provider || process.env.LLM_PROVIDER;
+  if (configured && !isProviderName(configured)) {
+    throw new Error(
+      `Unknown LLM provider "${configured}", expected one of ${LLM_PROVIDERS.join(", ")}`
+    );
+  }
+  const provider = configured ? (configured as LLMProviderName) : inferProvider();
+  const defaults = PROVIDER_DEFAULTS[provider];
+
+  // Replayed runs never reach the provider, so they don't need a key
+  const apiKey = defaults.apiKeyEnv ? process.env[defaults.apiKeyEnv] : undefined;
+  if (defaults.apiKeyEnv && !apiKey && process.env.LLM_MODE !== "replay") {
+    throw new Error(
+      `${defaults.apiKeyEnv} environment variable is required for the ${provider} provider`
+    );
+  }
+
+  return {
+    provider,
+    model: config.model || process.env.LLM_MODEL || defaults.model,
+    baseUrl: defaults.baseUrl(),
+    apiKey,
+  };
+}
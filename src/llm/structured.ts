@@ -0,0 +1,98 @@
+import type { CompletionRequest, LLMProvider } from "./types";
+import type { Validator } from "./schema";
+
+// Repair attempts after the first answer, each one re-prompts the model
+const DEFAULT_MAX_REPAIRS = 2;
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly errors: string[],
+    public readonly lastResponse: string
+  ) {
+    super(
+      `${label} returned invalid output after all repair attempts:\n- ${errors.join("\n- ")}`
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+// Models without JSON mode tend to wrap the object in a code fence or prose
+function extractJson(response: string): string {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    return fenced[1];
+  }
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  return start !== -1 && end > start ? response.slice(start, end + 1) : response;
+}
+
+function parse<T>(
+  response: string,
+  schema: Validator<T>
+): { value?: T; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(response));
+  } catch (error) {
+    return {
+      errors: [
+        `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+  const result = schema(parsed, "$");
+  return result.errors.length ? { errors: result.errors } : { value: result.value, errors: [] };
+}
+
+/**
+ * Ask for a JSON object and validate it against a schema. When the answer
+ * doesn't validate, the errors are sent back to the model, which gets a
+ * bounded number of attempts to repair its answer.
+ * @param llm - Provider
+ * @param request - Messages and sampling options, JSON mode is turned on
+ * @param schema - Validator for the response
+ * @param options - Name of the call for diagnostics and the number of repairs
+ * @returns The validated response
+ * @throws StructuredOutputError if no attempt validates
+ */
+export async function completeStructured<T>(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  schema: Validator<T>,
+  options: { label: string; maxRepairs?: number }
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let messages = request.messages;
+  let response = "";
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    response = await llm.complete({ ...request, messages, json: true });
+    const result = parse(response, schema);
+    if (result.value !== undefined) {
+      return result.value;
+    }
+    errors = result.errors;
+
+    if (attempt < maxRepairs) {
+      console.log(
+        `🔧 ${options.label}: invalid response (${errors.length} error(s)), asking for a repair (${attempt + 1}/${maxRepairs})`
+      );
+      messages = [
+        ...request.messages,
+        { role: "assistant", content: response },
+        {
+          role: "user",
+          content: `Your response does not match the required format:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return the corrected JSON object only, with the same structure as requested.`,
+        },
+      ];
+    }
+  }
+
+  throw new StructuredOutputError(options.label, errors, response);
+}
@@ -0,0 +1,36 @@
+// Rough token counts for prompt budgeting. Tokenizers differ per provider,
+// around four characters per token holds well enough for code and English.
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens of a text
+ * @param text - Prompt text
+ * @returns The estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut a text down to a token budget on a line boundary
+ * @param text - Text to shorten
+ * @param maxTokens - Budget
+ * @returns The text, with a note on how many lines were cut if it was shortened
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = estimateTokens(`${line}\n`);
+    if (used + cost > maxTokens) {
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  return `${kept.join("\n")}\n... (${lines.length - kept.length} more lines truncated)`;
+}
@@ -0,0 +1,33 @@
+import type { LLMProviderName } from "../types";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a single JSON object
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  /**
+   * Send a chat completion request
+   * @param request - Messages and sampling options
+   * @returns The text of the first choice, empty if there is none
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+// Fully resolved connection settings of a provider
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+}
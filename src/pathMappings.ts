@@ -0,0 +1,51 @@
+import micromatch from "micromatch";
+
+/**
+ * Normalize the pathMappings option: each glob maps to a list of pages
+ * @param mappings - pathMappings from the configuration
+ * @returns Doc pages by glob
+ */
+export function normalizePathMappings(
+  mappings: Record<string, string | string[]> = {}
+): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(mappings).map(([pattern, pages]) => [
+      pattern,
+      (Array.isArray(pages) ? pages : [pages]).map((page) => page.replace(/^\.\//, "")),
+    ])
+  );
+}
+
+/**
+ * Find the glob of the path mappings matching a file
+ * @param files - File paths, e.g. the current and previous path of a rename
+ * @param mappings - Normalized path mappings
+ * @returns The first matching glob, undefined if none matches
+ */
+export function findMapping(
+  files: (string | undefined)[],
+  mappings: Record<string, string[]> = {}
+): string | undefined {
+  const paths = files.filter((file): file is string => !!file);
+  return Object.keys(mappings).find((pattern) =>
+    paths.some((file) => micromatch.isMatch(file, pattern))
+  );
+}
+
+/**
+ * Resolve the doc pages a source file is mapped to. Every matching glob
+ * contributes its pages, in the order of the configuration.
+ * @param files - File paths, e.g. the current and previous path of a rename
+ * @param mappings - Normalized path mappings
+ * @returns The mapped pages, without duplicates
+ */
+export function resolveMappedDocs(
+  files: (string | undefined)[],
+  mappings: Record<string, string[]> = {}
+): string[] {
+  const paths = files.filter((file): file is string => !!file);
+  const pages = Object.entries(mappings)
+    .filter(([pattern]) => paths.some((file) => micromatch.isMatch(file, pattern)))
+    .flatMap(([, mapped]) => mapped);
+  return Array.from(new Set(pages));
+}
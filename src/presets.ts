@@ -0,0 +1,223 @@
+import { Octokit } from "@octokit/rest";
+import micromatch from "micromatch";
+import type { DocConfig, PresetName } from "./types";
+
+export interface Preset {
+  description: string;
+  // Files whose presence identifies the framework, matched on the file name
+  markers: string[];
+  importantPatterns: string[];
+  ignorePatterns: string[];
+}
+
+export const presets: Record<PresetName, Preset> = {
+  laravel: {
+    description: "Laravel, including Inertia and React front ends",
+    markers: ["composer.json", "artisan"],
+    importantPatterns: [
+      "app/Console/**",
+      "app/Events/**",
+      "app/Mail/**",
+      "app/Models/**",
+      "app/Notifications/**",
+      "app/Services/**",
+      "app/Http/Controllers/**",
+      "app/Http/Middleware/**",
+      "app/Http/Resources/**",
+      "routes/**",
+      "resources/js/contexts/**",
+      "resources/js/lib/**",
+      "resources/js/hooks/**",
+    ],
+    ignorePatterns: [
+      "app/Http/Controllers/Auth/**",
+      "vendor/**",
+      "public/**",
+      "storage/**",
+      "bootstrap/**",
+      "config/**",
+      "database/**",
+      "tests/**",
+      "resources/css/**",
+      "resources/views/**",
+      "artisan",
+      "server.php",
+      "composer.json",
+      "composer.lock",
+      "webpack.mix.js",
+      "vite.config.js",
+      "phpunit.xml",
+      "phpunit.xml.dist",
+      "phpcs.xml",
+      "phpcs.xml.dist",
+      "phpstan.neon",
+      "phpstan.neon.dist",
+    ],
+  },
+  nextjs: {
+    description: "Next.js applications (app and pages router)",
+    markers: ["next.config.js", "next.config.mjs", "next.config.ts"],
+    importantPatterns: [
+      "app/**",
+      "pages/**",
+      "src/app/**",
+      "src/pages/**",
+      "components/**",
+      "src/components/**",
+      "lib/**",
+      "src/lib/**",
+      "hooks/**",
+      "src/hooks/**",
+      "middleware.ts",
+      "src/middleware.ts",
+    ],
+    ignorePatterns: [
+      ".next/**",
+      "public/**",
+      "**/*.test.*",
+      "**/*.spec.*",
+      "**/__tests__/**",
+      "next.config.*",
+      "next-env.d.ts",
+      "tailwind.config.*",
+      "postcss.config.*",
+    ],
+  },
+  node: {
+    description: "Express servers and Node.js TypeScript libraries",
+    markers: ["package.json"],
+    importantPatterns: [
+      "src/**",
+      "lib/**",
+      "index.ts",
+      "index.js",
+    ],
+    ignorePatterns: [
+      "dist/**",
+      "build/**",
+      "coverage/**",
+      "**/*.test.*",
+      "**/*.spec.*",
+      "**/__tests__/**",
+      "**/*.d.ts",
+      "tsconfig*.json",
+      "jest.config.*",
+      "vitest.config.*",
+      "eslint.config.*",
+      "babel.config.*",
+    ],
+  },
+  django: {
+    description: "Django projects",
+    markers: ["manage.py"],
+    importantPatterns: [
+      "**/models.py",
+      "**/models/**",
+      "**/views.py",
+      "**/views/**",
+      "**/urls.py",
+      "**/serializers.py",
+      "**/forms.py",
+      "**/signals.py",
+      "**/management/commands/**",
+    ],
+    ignorePatterns: [
+      "**/migrations/**",
+      "**/tests/**",
+      "**/tests.py",
+      "**/test_*.py",
+      "**/__pycache__/**",
+      "static/**",
+      "media/**",
+      "manage.py",
+      "**/settings.py",
+      "**/settings/**",
+      "**/wsgi.py",
+      "**/asgi.py",
+    ],
+  },
+  go: {
+    description: "Go modules",
+    markers: ["go.mod"],
+    importantPatterns: [
+      "**/*.go",
+    ],
+    ignorePatterns: [
+      "vendor/**",
+      "testdata/**",
+      "**/testdata/**",
+      "**/*_test.go",
+      "**/*.pb.go",
+      "**/*_gen.go",
+      "**/zz_generated*.go",
+      "go.sum",
+    ],
+  },
+};
+
+// Checked in this order when markers are found at the same depth: a Next.js
+// or Laravel project also has a package.json
+const DETECTION_ORDER: PresetName[] = ["nextjs", "laravel", "django", "go", "node"];
+
+// Vendored code may contain markers of other frameworks
+const DETECTION_IGNORE = ["**/node_modules/**", "**/vendor/**", "**/testdata/**"];
+
+/**
+ * Detect the framework of a repository from the files it contains. Markers
+ * closest to the root win, so a monorepo is matched on its top-level project.
+ * @param paths - File paths in the repository
+ * @returns The detected preset, if any
+ */
+export function detectPreset(paths: string[]): PresetName | undefined {
+  const candidates = micromatch.not(paths, DETECTION_IGNORE);
+
+  let best: { name: PresetName; depth: number } | undefined;
+  for (const name of DETECTION_ORDER) {
+    const matches = micromatch(candidates, presets[name].markers, { basename: true });
+    for (const match of matches) {
+      const depth = match.split("/").length;
+      if (!best || depth < best.depth) {
+        best = { name, depth };
+      }
+    }
+  }
+  return best?.name;
+}
+
+/**
+ * Detect the preset of a repository when the configuration asks for it
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param config - User configuration, detection only runs for preset "auto"
+ * @returns The detected preset, if any
+ */
+export async function detectRepositoryPreset(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  config: Partial<DocConfig>
+): Promise<PresetName | undefined> {
+  if ((config.preset ?? "auto") !== "auto") {
+    return undefined;
+  }
+
+  const { data: repository } = await octokit.repos.get({ owner, repo });
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: repository.default_branch,
+    recursive: "true",
+  });
+  const paths = tree.tree
+    .filter((item) => item.type === "blob" && item.path)
+    .map((item) => item.path as string);
+
+  const preset = detectPreset(paths);
+  console.log(
+    preset
+      ? `🧭 Detected ${preset} project, using the ${preset} preset`
+      : "🧭 No framework detected, using the default patterns"
+  );
+  return preset;
+}
@@ -0,0 +1,75 @@
+import { Octokit } from "@octokit/rest";
+import { parse as parseYaml } from "yaml";
+import type { DocConfig } from "./types";
+import { ConfigError, validateDocConfig } from "./configSchema";
+
+// Looked up in this order on the repository's default branch
+export const REPO_CONFIG_FILES = [
+  ".docs-updater.json",
+  ".docs-updater.yml",
+  ".docs-updater.yaml",
+];
+
+export interface RepoConfig {
+  path?: string; // Config file that was found, if any
+  config: Partial<DocConfig>;
+}
+
+function parseConfigFile(path: string, content: string): Partial<DocConfig> {
+  let parsed: unknown;
+  try {
+    parsed = path.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigError(path, [
+      `Could not parse file: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  // An empty YAML file means "use the defaults"
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+
+  const errors = validateDocConfig(parsed);
+  if (errors.length > 0) {
+    throw new ConfigError(path, errors);
+  }
+  return parsed as Partial<DocConfig>;
+}
+
+/**
+ * Load the repository's own configuration from its default branch
+ * @param octokit - Octokit instance
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns The parsed configuration, empty if the repository has none
+ * @throws ConfigError if the file can't be parsed or is invalid
+ */
+export async function loadRepoConfig(
+  octokit: Octokit,
+  owner: string,
+  repo: string
+): Promise<RepoConfig> {
+  for (const path of REPO_CONFIG_FILES) {
+    let content: string;
+    try {
+      // No ref: read from the default branch, not from the PR under review
+      const { data } = await octokit.repos.getContent({ owner, repo, path });
+      if (!("content" in data)) {
+        continue;
+      }
+      content = Buffer.from(data.content, "base64").toString("utf-8");
+    } catch (error: any) {
+      if (error.status === 404) {
+        continue;
+      }
+      throw error;
+    }
+
+    console.log(`⚙️ Loaded configuration from ${path}`);
+    return { path, config: parseConfigFile(path, content) };
+  }
+
+  console.log("⚙️ No repository configuration file found, using defaults");
+  return { config: {} };
+}
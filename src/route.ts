@@ -1,11 +1,16 @@
 import { Context } from "hono";
 import { createFullConfig } from "./config";
 import { ReviewState } from "./actions/initialDocsActions/types";
-
+import type { DocConfig, Job } from "./types";
+import type { JobHandler, JobQueue } from "./jobs";
+import { Octokit } from "@octokit/rest";
+import { loadRepoConfig } from "./repoConfig";
+import { detectRepositoryPreset } from "./presets";
+import { ConfigError } from "./configSchema";
 
 type Agent = any;
 
-export async function generateInitialDocs(c: Context, agent: Agent) {
+export async function generateInitialDocs(c: Context, queue: JobQueue) {
   try {
     const body = await c.req.json();
 
@@ -14,35 +19,28 @@ export async function generateInitialDocs(c: Context, agent: Agent) {
     }
 
     // Create the initial state with proper config
-    const config = createFullConfig(body.config || {});
+    const config = createFullConfig(body.config || {}, "request body config");
 
     const state: ReviewState = {
       owner: body.repository.owner.login,
       repo: body.repository.name,
       config,
+      userConfig: body.config || {},
     };
 
-    console.log(`📢 Starting initial documentation for ${state.owner}/${state.repo}`);
-
-
-    // Create and execute the agent
-    const result = await agent({
-      input: "Generate initial documentation for the repository",
-      externalCustomerId: body.repository.owner.login,
-      state,
+    const job = queue.enqueue("initial_docs", { ...state }, {
+      key: `${state.owner}/${state.repo}`,
     });
+    console.log(`📢 Queued initial documentation job ${job.id} for ${state.owner}/${state.repo}`);
 
-    if (result.state.pullRequestUrl) {
-      return c.json({
-        message: "Initial documentation PR created successfully!",
-        pullRequestUrl: result.state.pullRequestUrl,
-      });
-    } else {
-      return c.json({
-        message: "Initial documentation process completed, but no PR was created.",
-      });
-    }
+    return c.json(
+      { message: "Initial documentation generation queued", jobId: job.id },
+      202
+    );
   } catch (error) {
+    if (error instanceof ConfigError) {
+      return c.json({ error: "Invalid configuration", errors: error.errors }, 400);
+    }
     console.error("❌ Error generating initial docs:", error);
     return c.json(
       { error: "Failed to generate initial documentation", details: error instanceof Error ? error.message : String(error) },
@@ -51,3 +49,89 @@ export async function generateInitialDocs(c: Context, agent: Agent) {
   }
 };
 
+/**
+ * Create the job handler that runs the initial documentation agent.
+ * @param agent - Initial documentation agent
+ * @param baseConfig - Server-wide configuration
+ * @returns Handler for "initial_docs" jobs
+ */
+export function createInitialDocsJobHandler(
+  agent: Agent,
+  baseConfig: Partial<DocConfig> = {}
+): JobHandler {
+  return async (job: Job) => {
+    const state = { ...job.input, jobId: job.id } as ReviewState;
+
+    // Server config < repository config file < config sent with the request
+    const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+    const { config: repoConfig } = await loadRepoConfig(octokit, state.owner, state.repo);
+    const userConfig = {
+      ...baseConfig,
+      ...repoConfig,
+      ...state.userConfig,
+    };
+    const preset = await detectRepositoryPreset(octokit, state.owner, state.repo, userConfig);
+    state.config = createFullConfig(userConfig, "configuration", preset);
+
+    console.log(`📢 Starting initial documentation for ${state.owner}/${state.repo}`);
+
+    const result = await agent({
+      input: "Generate initial documentation for the repository",
+      externalCustomerId: state.owner,
+      state,
+    });
+
+    if (!result.state.pullRequestUrl) {
+      console.log("Initial documentation process completed, but no PR was created.");
+    }
+    return { pullRequestUrl: result.state.pullRequestUrl };
+  };
+}
+
+/**
+ * Validate a DocConfig and return the fully resolved DocUpdateConfig
+ */
+export async function validateConfig(c: Context) {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ valid: false, errors: ["Request body must be valid JSON"] }, 400);
+  }
+
+  try {
+    const config = createFullConfig(body as Partial<DocConfig>, "request body");
+    return c.json({ valid: true, config });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return c.json({ valid: false, errors: error.errors }, 400);
+    }
+    throw error;
+  }
+}
+
+// Job status, without the agent input which can be large
+function describeJob(job: Job) {
+  const { input, ...status } = job;
+  return {
+    ...status,
+    target: {
+      owner: input.owner,
+      repo: input.repo,
+      pull_number: input.pull_number,
+    },
+  };
+}
+
+export function listJobs(c: Context, queue: JobQueue) {
+  return c.json({ jobs: queue.list().map(describeJob) });
+}
+
+export function getJob(c: Context, queue: JobQueue) {
+  const id = c.req.param("id");
+  const job = id ? queue.get(id) : undefined;
+  if (!job) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+  return c.json(describeJob(job));
+}
@@ -2,28 +2,106 @@ import { Hono } from "hono";
 import { serve } from "@hono/node-server";
 import { createDocUpdateAgent, createInitialDocsAgent }
   from "./index";
-import { handleWebhook } from "./webhooks";
+import {
+  createCloseDocsPRJobHandler,
+  createPullRequestJobHandler,
+  handleWebhook,
+  resolveWebhookSecrets,
+} from "./webhooks";
 import type { DocConfig } from "./types";
-import { generateInitialDocs } from "./route";
+import {
+  createInitialDocsJobHandler,
+  generateInitialDocs,
+  getJob,
+  listJobs,
+  validateConfig,
+} from "./route";
+import { createJobQueue } from "./jobs";
+
+/**
+ * Read an integer setting from the environment
+ * @param name - Environment variable
+ * @param fallback - Value when the variable is unset or invalid
+ * @param min - Smallest valid value
+ * @returns The value, or the fallback with a warning if it isn't an integer of at least min
+ */
+function readIntegerEnv(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    console.warn(
+      `⚠️ ${name}=${JSON.stringify(raw)} is not an integer of at least ${min}, using ${fallback}`
+    );
+    return fallback;
+  }
+  return value;
+}
 
 export interface ServerOptions {
   config?: Partial<DocConfig>;
-  openAiKey?: string;
   githubToken?: string;
   port?: number;
+  webhookSecret?: string | string[];
+  jobsFile?: string; // Where the job queue is persisted (defaults to .data/jobs.json)
+  jobConcurrency?: number; // Jobs processed in parallel (defaults to 2)
+  webhookDebounceMs?: number; // Quiet period before a PR run starts (defaults to 30s)
 }
 
 export async function startServer(options: ServerOptions = {}) {
-  const pullAgent = createDocUpdateAgent(options);
-  const initialAgent = createInitialDocsAgent(options);
+  const agentOptions = {
+    ...options,
+    onActionStart: (actionId: string, state: { jobId?: string }) => {
+      if (state?.jobId) {
+        queue.setCurrentAction(state.jobId, actionId);
+      }
+    },
+  };
+  const pullAgent = createDocUpdateAgent(agentOptions);
+  const initialAgent = createInitialDocsAgent(agentOptions);
   const app = new Hono();
 
+  const queue = createJobQueue({
+    file: options.jobsFile || process.env.JOBS_FILE || ".data/jobs.json",
+    concurrency:
+      options.jobConcurrency || readIntegerEnv("JOB_CONCURRENCY", 2, 1),
+    handlers: {
+      pull_request: createPullRequestJobHandler(pullAgent, options.config),
+      initial_docs: createInitialDocsJobHandler(initialAgent, options.config),
+      close_docs_pr: createCloseDocsPRJobHandler(options.config),
+    },
+  });
+
+  const webhookSecrets = resolveWebhookSecrets(options.webhookSecret);
+  if (webhookSecrets.length === 0) {
+    console.warn(
+      "⚠️ GITHUB_WEBHOOK_SECRET is not set, all webhook deliveries will be rejected"
+    );
+  }
+
   // Single webhook endpoint
-  app.post("/webhook", (c) => handleWebhook(c, pullAgent));
+  const debounceMs =
+    options.webhookDebounceMs ?? readIntegerEnv("WEBHOOK_DEBOUNCE_MS", 30000, 0);
+  app.post("/webhook", (c) =>
+    handleWebhook(c, queue, {
+      secrets: webhookSecrets,
+      debounceMs,
+      config: options.config || {},
+    })
+  );
 
   // Initial documentation generation endpoint
 
-  app.post("/generate-initial-docs", (c) => generateInitialDocs(c, initialAgent));
+  app.post("/generate-initial-docs", (c) => generateInitialDocs(c, queue));
+
+  // Check a configuration before committing it
+  app.post("/config/validate", (c) => validateConfig(c));
+
+  // Job status endpoints
+  app.get("/jobs", (c) => listJobs(c, queue));
+  app.get("/jobs/:id", (c) => getJob(c, queue));
 
   // test api
   app.get("/test", (c) => {
@@ -42,6 +120,7 @@ export async function startServer(options: ServerOptions = {}) {
   // Return both the agent and server instance
   return {
     agent: pullAgent,
+    queue,
     server
   };
 }
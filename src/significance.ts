@@ -0,0 +1,155 @@
+import micromatch from "micromatch";
+import { lowPriorityReason } from "./diffChunking";
+import { docsRoot } from "./docsPaths";
+import { matchFile } from "./fileMatcher";
+import type { DocUpdateConfig, SignificanceScore } from "./types";
+
+// A file changed by a PR, as listed by GitHub
+interface ChangedFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+// Points of a counted file: a base for its kind, one per LINES_PER_POINT
+// changed lines up to MAX_COUNTED_LINES, and bonuses for API lines and for
+// files that appear, disappear or move
+const IMPORTANT_FILE_POINTS = 1;
+const OTHER_FILE_POINTS = 0.5;
+const LINES_PER_POINT = 20;
+const MAX_COUNTED_LINES = 60;
+const API_LINE_POINTS = 2;
+const STRUCTURE_POINTS = 1.5;
+
+// Files listed per reason, and counted files listed with their points
+const MAX_LISTED_FILES = 5;
+const MAX_LISTED_SCORES = 10;
+
+const MANIFEST_PATTERNS = [
+  "**/package.json",
+  "**/composer.json",
+  "**/requirements*.txt",
+  "**/pyproject.toml",
+  "**/Pipfile",
+  "**/go.mod",
+  "**/Cargo.toml",
+  "**/Gemfile",
+];
+
+// Declarations documentation usually describes
+const API_LINE =
+  /^\s*(export\s|public\s|(abstract\s+|final\s+)?class\s|interface\s|enum\s|def\s|func\s|Route::)/;
+const COMMENT_LINE = /^\s*(\/\/|\/\*|\*|#(?!\[))/;
+
+function changedLines(patch = ""): string[] {
+  return patch
+    .split("\n")
+    .filter(
+      (line) =>
+        (line.startsWith("+") && !line.startsWith("+++")) ||
+        (line.startsWith("-") && !line.startsWith("---"))
+    )
+    .map((line) => line.slice(1))
+    .filter((line) => line.trim());
+}
+
+// A manifest change that only moves version numbers
+function isVersionBump(patch?: string): boolean {
+  const lines = changedLines(patch);
+  return lines.length > 0 && lines.every((line) => /\d+\.\d+/.test(line));
+}
+
+function skipReason(file: ChangedFile, config: DocUpdateConfig): string | undefined {
+  const { docExtensions } = config.matchRules;
+  const match = matchFile(file.filename, config.matchRules);
+  if (!match.included) {
+    return "ignored by ignorePatterns";
+  }
+  const lowPriority = lowPriorityReason(file.filename);
+  if (lowPriority) {
+    return lowPriority;
+  }
+  const root = docsRoot(config.docsPath);
+  if (
+    docExtensions.some((extension) => file.filename.endsWith(extension)) ||
+    (root && file.filename.startsWith(`${root}/`))
+  ) {
+    return "documentation";
+  }
+  if (micromatch.isMatch(file.filename, MANIFEST_PATTERNS) && isVersionBump(file.patch)) {
+    return "dependency bump";
+  }
+  return undefined;
+}
+
+function listFiles(files: string[]): string {
+  return files.length > MAX_LISTED_FILES
+    ? `${files.slice(0, MAX_LISTED_FILES).join(", ")} and ${files.length - MAX_LISTED_FILES} more`
+    : files.join(", ");
+}
+
+/**
+ * Score how likely a PR is to need documentation updates, from its files
+ * alone: ignored files, tests, lockfiles, generated code, docs and
+ * dependency bumps count for nothing; other files count by kind (important
+ * patterns and OpenAPI specs weigh more), changed lines, and whether they
+ * touch declarations or are added, removed or renamed.
+ * @param files - Files changed by the PR
+ * @param config - Full configuration, for the patterns and the threshold
+ * @returns The score and how it was computed
+ */
+export function scorePullRequest(
+  files: ChangedFile[],
+  config: DocUpdateConfig
+): SignificanceScore {
+  const threshold = config.matchRules.significanceThreshold;
+  const skipped = new Map<string, string[]>();
+  const counted: { file: string; points: number; details: string[] }[] = [];
+
+  for (const file of files) {
+    const reason = skipReason(file, config);
+    if (reason) {
+      skipped.set(reason, [...(skipped.get(reason) || []), file.filename]);
+      continue;
+    }
+
+    const { important } = matchFile(file.filename, config.matchRules);
+    const lines = file.additions + file.deletions;
+    const details = [important ? "important file" : "other file", `${lines} changed lines`];
+    let points =
+      (important ? IMPORTANT_FILE_POINTS : OTHER_FILE_POINTS) +
+      Math.min(lines, MAX_COUNTED_LINES) / LINES_PER_POINT;
+    if (
+      changedLines(file.patch).some((line) => API_LINE.test(line) && !COMMENT_LINE.test(line))
+    ) {
+      points += API_LINE_POINTS;
+      details.push("declarations changed");
+    }
+    if (file.status !== "modified" && file.status !== "changed") {
+      points += STRUCTURE_POINTS;
+      details.push(file.status);
+    }
+    counted.push({ file: file.filename, points, details });
+  }
+
+  const score = Math.round(counted.reduce((sum, item) => sum + item.points, 0) * 10) / 10;
+  const reasons = [
+    ...Array.from(skipped, ([reason, names]) =>
+      `${names.length} file${names.length === 1 ? "" : "s"} not counted (${reason}): ${listFiles(names)}`
+    ),
+    ...counted
+      .sort((a, b) => b.points - a.points)
+      .slice(0, MAX_LISTED_SCORES)
+      .map((item) => `${item.file}: +${item.points.toFixed(1)} (${item.details.join(", ")})`),
+  ];
+  if (counted.length > MAX_LISTED_SCORES) {
+    reasons.push(`${counted.length - MAX_LISTED_SCORES} more counted files`);
+  }
+  if (!counted.length) {
+    reasons.push("No file can affect the documentation");
+  }
+
+  return { score, threshold, significant: score >= threshold, reasons };
+}
@@ -18,6 +18,29 @@ export interface DocUpdate {
   reason: string;
 }
 
+// Built-in framework presets for importantPatterns and ignorePatterns
+export type PresetName = "laravel" | "nextjs" | "node" | "django" | "go";
+
+// Backends the LLM calls can be sent to
+export type LLMProviderName = "openai" | "groq" | "anthropic" | "ollama";
+
+// LLM calls that can be routed to their own model and parameters
+export type LLMStage =
+  | "analyzeChanges"
+  | "analyzeDocReferences"
+  | "generateUpdatePlan"
+  | "generateFileContent"
+  | "generateInitialDocs";
+
+export interface LLMStageConfig {
+  provider?: LLMProviderName; // Defaults to the configured provider
+  model?: string; // Defaults to the configured model
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+  maxInputTokens?: number; // Prompt budget, larger inputs are split into several requests
+}
+
 export interface DocConfig {
   // Essential settings
   docsPath: string; // Path to docs (e.g., "docs" or "apps/docs")
@@ -26,53 +49,144 @@ export interface DocConfig {
   // Repository settings (optional, defaults to PR repository)
   docsRepoOwner?: string; // GitHub owner of docs repo if different
   docsRepoName?: string; // Name of docs repo if different
-  docsBranch?: string; // Branch to update (defaults to 'main')
+  docsBranch?: string; // Branch to update (defaults to the docs repository's default branch)
 
   // Documentation settings
   fileTypes?: string[]; // Doc file types (defaults to ['.mdx', '.md'])
-  ignorePaths?: string[]; // Paths to ignore
-  importantPatterns?: string[]; // Patterns to identify important files
-  ignorePatterns?: string[]; // Patterns to ignore
+  preset?: PresetName | "auto" | "none"; // Framework preset (defaults to "auto", detected from the repository)
+  ignorePaths?: string[]; // Paths to ignore, added to the preset's
+  importantPatterns?: string[]; // Patterns to identify important files, added to the preset's
+  ignorePatterns?: string[]; // Patterns to ignore, added to the preset's
+  relatedFilesDepth?: number; // Levels of importers of a changed file to consider related (defaults to 1)
+  pathMappings?: Record<string, string | string[]>; // Globs of source files to the doc pages documenting them
+  significanceThreshold?: number; // Minimum PR score to run the agent, 0 to run on every PR (defaults to 2)
 
   // PR settings
   createNewPr?: boolean; // Create new PR vs update original (defaults to true)
   labels?: string[]; // Labels to add to PR
+  commitMessage?: string; // Commit message template ({summary}, {changes}, {prTitle}, {prNumber}, {fileCount})
+
+  // LLM settings (API keys always come from the environment)
+  llmProvider?: LLMProviderName; // Defaults to LLM_PROVIDER, or the provider whose API key is set
+  llmModel?: string; // Defaults to LLM_MODEL, or the provider's default model
+  llmStages?: Partial<Record<LLMStage, LLMStageConfig>>; // Per-stage overrides
 
   // Optional customization
   styleGuide?: string; // Custom documentation style guide
 }
 
+export interface DocsRepository {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
 export interface DocUpdateConfig {
   docsPath: string;
+  preset?: PresetName; // Preset the match rules were built from
+  docsBranch?: string; // Unset for the docs repository's default branch
   docsRepo?: {
     owner: string;
     repo: string;
-    branch: string;
     monorepo: boolean;
   };
   matchRules: {
     docExtensions: string[];
     ignorePatterns: string[];
-    pathMappings?: Record<string, string>;
+    pathMappings: Record<string, string[]>; // Doc pages by glob of source files
     importantPatterns: string[];
+    relatedFilesDepth: number;
+    significanceThreshold: number;
   };
   prConfig: {
     updateOriginalPr: boolean;
     branchPrefix: string;
     titleTemplate: string;
     bodyTemplate: string;
+    commitMessageTemplate: string;
     labels: string[];
   };
   llmConfig?: {
+    provider?: LLMProviderName;
+    model?: string;
     styleGuide?: string;
     temperature?: number;
+    stages?: Partial<Record<LLMStage, LLMStageConfig>>;
   };
 }
 
+// File statuses reported by GitHub for a PR
+export type CodeChangeType =
+  | "added"
+  | "modified"
+  | "removed"
+  | "renamed"
+  | "copied"
+  | "changed"
+  | "unchanged";
+
+// Kinds of symbols the source analyzers report
+export type SymbolKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "variable"
+  | "reexport"
+  | "method"
+  | "attribute"
+  | "cast"
+  | "relation"
+  | "route"
+  | "event"
+  | "mail"
+  | "notification"
+  | "operation"
+  | "parameter"
+  | "requestBody"
+  | "response"
+  | "schema";
+
+// A public symbol of a source file, with the signature it is compared on
+export interface SourceSymbol {
+  name: string;
+  kind: SymbolKind;
+  signature: string;
+}
+
+// A symbol that was added, removed or whose signature changed
+export interface SymbolChange {
+  name: string;
+  kind: SymbolKind;
+  change: "added" | "removed" | "changed";
+  before?: string; // Signature in the base version
+  after?: string; // Signature in the head version
+  breaking?: boolean; // Set when users of the symbol must change their code
+}
+
+// A change that requires users of the code to change theirs
+export interface BreakingChange {
+  file: string;
+  description: string;
+  symbol?: string;
+  before?: string; // Old signature, or removed lines of the patch
+  after?: string; // New signature, or added lines of the patch
+}
+
+// Score of a PR from its changed files, computed before any LLM call
+export interface SignificanceScore {
+  score: number;
+  threshold: number;
+  significant: boolean; // Score reached the threshold, the agent runs
+  reasons: string[]; // How the score was computed, one line per finding
+}
+
 export interface CodeChange {
   file: string;
+  previousFile?: string; // Path before a rename or copy
   patch: string;
-  type: "added" | "modified" | "deleted";
+  type: CodeChangeType;
   significance: {
     hasExports: boolean;
     hasInterfaces: boolean;
@@ -80,21 +194,27 @@ export interface CodeChange {
     hasTypes: boolean;
     hasEnums: boolean;
     isTest: boolean;
+    isImportant: boolean; // Matches an important pattern
   };
   category?: string;
   relatedFiles?: string[];
+  mappedDocs?: string[]; // Doc pages the file is mapped to by pathMappings
+  symbols?: SymbolChange[]; // Symbol-level diff, for languages with an analyzer
+  breaking?: boolean;
 }
 
 export interface CodeAnalysis {
   changes: CodeChange[];
   impactedAreas: string[];
   significantChanges: boolean;
+  breakingChanges: BreakingChange[];
   summary: string;
 }
 
 export interface DocFile {
   path: string;
   type: string;
+  sha?: string; // Blob SHA on the docs branch
   category?: string;
   lastModified?: string;
   references?: string[];
@@ -114,11 +234,21 @@ export interface NavigationItem {
 
 export interface PlannedDocUpdate {
   path: string;
-  type: "create" | "update";
+  // "move" rewrites the page at previousPath to path and redirects the old
+  // URL, "deprecate" flags a page whose code was removed, "delete" removes
+  // the page of an API operation that no longer exists
+  type: "create" | "update" | "move" | "deprecate" | "delete";
+  previousPath?: string;
   reason: string;
   priority: "high" | "medium" | "low";
   sourceFiles: string[];
   relatedDocs?: string[];
+  // Breaking changes of the documented code, called out on the page or,
+  // on the migration guide, described with their migration steps
+  breakingChanges?: BreakingChange[];
+  migrationGuide?: boolean;
+  // Endpoint page rendered by Mintlify from the OpenAPI spec, e.g. "GET /users"
+  openapiOperation?: string;
   suggestedContent?: {
     title?: string;
     sections?: string[];
@@ -129,6 +259,8 @@ export interface PlannedDocUpdate {
 export interface UpdatePlan {
   summary: string;
   updates: PlannedDocUpdate[];
+  // OpenAPI specs the "openapi" field of mint.json must list
+  openapi?: string[];
   navigationChanges?: {
     group: string;
     changes: Array<{
@@ -154,12 +286,22 @@ export interface GeneratedContent {
       group: string;
     }>;
   };
+  deletions?: Array<{
+    path: string;
+    reason: string;
+  }>;
+  // Pages moved to a new path, redirected from the old URL
+  redirects?: Array<{
+    from: string;
+    to: string;
+  }>;
 }
 
 export interface ReviewState {
   owner: string;
   repo: string;
   pull_number: number;
+  head_sha?: string; // PR head the run was requested for
   config: DocUpdateConfig;
 
   // Analysis results
@@ -171,11 +313,47 @@ export interface ReviewState {
   generatedContent?: GeneratedContent;
   docUpdates?: DocUpdate[];
 
-  // Repository info
-  docsRepo?: {
-    owner: string;
-    repo: string;
-    branch: string;
-  };
+  // Repository the docs are read from and written to
+  docsRepo?: DocsRepository;
+
+  // Result
+  pullRequestUrl?: string;
+
+  // Set when the run is executed from the job queue
+  jobId?: string;
+}
+
+export type JobType = "pull_request" | "initial_docs" | "close_docs_pr";
+
+export type JobState =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface Job {
+  id: string;
+  type: JobType;
+  state: JobState;
+  // Initial agent state the job is run with
+  input: Record<string, unknown>;
+  currentAction?: string;
+
+  // Jobs with the same key never run at the same time (e.g. "owner/repo#12")
+  key?: string;
+  // GitHub deliveries (X-GitHub-Delivery) handled by this job
+  deliveryIds?: string[];
+
+  // Timings (ISO 8601)
+  createdAt: string;
+  runAfter?: string; // Not picked up before this time (debouncing)
+  startedAt?: string;
+  finishedAt?: string;
+
+  // Outcome
+  pullRequestUrl?: string;
+  result?: Record<string, unknown>;
+  error?: string;
 }
 
@@ -1,18 +1,83 @@
 import type { Context } from "hono";
-import type { ReviewState } from "./types";
+import { createHmac, timingSafeEqual } from "crypto";
+import type { DocConfig, Job, ReviewState } from "./types";
 import { createFullConfig } from "./config";
+import { Octokit } from "@octokit/rest";
+import {
+  CONFIG_ERROR_COMMENT_MARKER,
+  closeDocsPullRequest,
+  isAgentCommit,
+  listPullRequestFiles,
+  resolveDocsRepo,
+  upsertBotComment,
+} from "./github";
+import type { JobHandler, JobQueue } from "./jobs";
+import { loadRepoConfig } from "./repoConfig";
+import { detectRepositoryPreset } from "./presets";
+import { ConfigError } from "./configSchema";
+import { scorePullRequest } from "./significance";
 
 type Agent = any;
 
-export async function handleWebhook(c: Context, agent: Agent) {
+export interface WebhookOptions {
+  // Secrets accepted for X-Hub-Signature-256. More than one allows rotation.
+  secrets: string[];
+  // Quiet period used to coalesce bursts of events for the same PR
+  debounceMs: number;
+  // Server-wide configuration, the repository's config file is layered on top
+  config: Partial<DocConfig>;
+}
+
+/**
+ * Resolve the webhook secrets from an explicit option or GITHUB_WEBHOOK_SECRET.
+ * Multiple secrets can be given as an array or a comma-separated string so an
+ * old secret keeps working while the new one is rolled out on GitHub.
+ * @param secret - Secret(s) passed in code, takes precedence over the env var
+ * @returns The list of non-empty secrets
+ */
+export function resolveWebhookSecrets(secret?: string | string[]): string[] {
+  const raw = secret ?? process.env.GITHUB_WEBHOOK_SECRET ?? "";
+  const secrets = Array.isArray(raw) ? raw : raw.split(",");
+  return secrets.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+export async function handleWebhook(
+  c: Context,
+  queue: JobQueue,
+  options: WebhookOptions
+) {
   try {
+    // Read the raw body once: the signature is computed over the exact bytes
+    const rawBody = await c.req.text();
+    if (options.secrets.length === 0) {
+      console.error("Webhook rejected: GITHUB_WEBHOOK_SECRET is not configured");
+      return c.json({ error: "Webhook signature verification failed" }, 401);
+    }
+    const signature = c.req.header("x-hub-signature-256");
+    if (!signature) {
+      console.error("Webhook rejected: missing X-Hub-Signature-256 header");
+      return c.json({ error: "Missing webhook signature" }, 401);
+    }
+    if (!verifySignature(rawBody, signature, options.secrets)) {
+      console.error("Webhook rejected: signature mismatch");
+      return c.json({ error: "Webhook signature verification failed" }, 401);
+    }
+
     const event = c.req.header("x-github-event");
     if (!event) {
       console.error("No GitHub event header found");
       return c.json({ error: "No GitHub event header found" }, 400);
     }
 
-    const body = await parseWebhookBody(c);
+    // GitHub retries deliveries with the same id, only handle each one once
+    const deliveryId = c.req.header("x-github-delivery");
+    const previousJob = deliveryId ? queue.findByDelivery(deliveryId) : undefined;
+    if (previousJob) {
+      console.log(`Duplicate delivery ${deliveryId}, already handled by job ${previousJob.id}`);
+      return c.json({ message: "Duplicate delivery", jobId: previousJob.id });
+    }
+
+    const body = parseWebhookBody(c, rawBody);
     if (!isValidPullRequest(body)) {
       console.error("Invalid webhook payload:", body);
       return c.json({ error: "Invalid webhook payload" }, 400);
@@ -24,29 +89,57 @@ export async function handleWebhook(c: Context, agent: Agent) {
       return c.json({ message: "Skipping bot PR" });
     }
 
+    // A PR closed without merging takes its docs PR with it
+    if (isUnmergedCloseEvent(event, body)) {
+      const config = createFullConfig(options.config);
+      const key = `${body.repository.owner.login}/${body.repository.name}#${body.pull_request.number}`;
+      queue.cancel(key);
+      const job = queue.enqueue(
+        "close_docs_pr",
+        {
+          owner: body.repository.owner.login,
+          repo: body.repository.name,
+          pull_number: body.pull_request.number,
+          config,
+        },
+        { key, deliveryId }
+      );
+      console.log(`📥 Queued docs PR cleanup job ${job.id} for ${key}`);
+      return c.json({ message: "Docs PR cleanup queued", jobId: job.id }, 202);
+    }
+
     // Process only PR opens/updates
     if (!isRelevantPREvent(event, body.action)) {
       console.log("Event ignored:", event, body.action);
       return c.json({ message: "Event ignored" });
     }
 
-    // Create the initial state with proper config
-    const config = createFullConfig(body.config || {});
+    // Server-wide config for now, the repository's own config is loaded
+    // when the job runs
+    const config = createFullConfig(options.config);
     const state: ReviewState = {
       owner: body.repository.owner.login,
       repo: body.repository.name,
       pull_number: body.pull_request.number,
+      head_sha: body.pull_request.head?.sha,
       config,
     };
 
-    // Process the PR
-    const result = await agent({
-      input: `Review pull request #${body.pull_request.number}`,
-      externalCustomerId: body.repository.owner.login,
-      state,
+    // Hand the run to the background worker, GitHub expects a quick response.
+    // Runs are keyed per PR: a burst of pushes is coalesced into one run
+    // against the latest head, and a PR never has two runs at the same time.
+    const key = `${state.owner}/${state.repo}#${state.pull_number}`;
+    const job = queue.enqueue("pull_request", { ...state }, {
+      key,
+      deliveryId,
+      debounceMs: options.debounceMs,
     });
+    console.log(`📥 Queued job ${job.id} for ${key} at ${state.head_sha}`);
 
-    return c.json({ message: "Documentation update completed", ...result });
+    return c.json(
+      { message: "Documentation update queued", jobId: job.id },
+      202
+    );
   } catch (error) {
     console.error("Webhook error:", error);
     return c.json(
@@ -59,17 +152,180 @@ export async function handleWebhook(c: Context, agent: Agent) {
   }
 }
 
-async function parseWebhookBody(c: Context) {
+/**
+ * Resolve the configuration for a run: the server-wide config with the
+ * repository's config file from its default branch layered on top
+ * @param octokit - Octokit instance
+ * @param state - Run state, the config is replaced in place
+ * @param baseConfig - Server-wide configuration
+ * @param reportErrors - Comment on the PR when the config file is invalid
+ * @throws ConfigError if the repository's config file is invalid
+ */
+async function applyRepoConfig(
+  octokit: Octokit,
+  state: ReviewState,
+  baseConfig: Partial<DocConfig>,
+  reportErrors: boolean
+): Promise<void> {
+  try {
+    const { path, config } = await loadRepoConfig(octokit, state.owner, state.repo);
+    const userConfig = { ...baseConfig, ...config };
+    const preset = await detectRepositoryPreset(octokit, state.owner, state.repo, userConfig);
+    state.config = createFullConfig(userConfig, path, preset);
+  } catch (error) {
+    if (error instanceof ConfigError && reportErrors) {
+      await upsertBotComment(
+        octokit,
+        state.owner,
+        state.repo,
+        state.pull_number,
+        `⚠️ Documentation updates are skipped because \`${error.source}\` is invalid:
+
+${error.errors.map((message) => `- ${message}`).join("\n")}
+
+Fix the file on the default branch and push again to retry.`,
+        CONFIG_ERROR_COMMENT_MARKER
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the job handler that runs the documentation update agent for a PR.
+ * @param agent - Documentation update agent
+ * @param baseConfig - Server-wide configuration
+ * @returns Handler for "pull_request" jobs
+ */
+export function createPullRequestJobHandler(
+  agent: Agent,
+  baseConfig: Partial<DocConfig> = {}
+): JobHandler {
+  return async (job: Job) => {
+    const state = { ...job.input, jobId: job.id } as ReviewState;
+
+    const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+
+    // In updateOriginalPr mode the agent's own push triggers a synchronize event
+    if (
+      state.head_sha &&
+      (await isAgentCommit(octokit, state.owner, state.repo, state.head_sha))
+    ) {
+      console.log(`Skipping ${state.head_sha}: pushed by the documentation agent`);
+      return { result: { skipped: "Head commit was pushed by the documentation agent" } };
+    }
+
+    await applyRepoConfig(octokit, state, baseConfig, true);
+
+    // Trivial PRs are skipped before any LLM call
+    const files = await listPullRequestFiles(
+      octokit,
+      state.owner,
+      state.repo,
+      state.pull_number
+    );
+    const significance = scorePullRequest(files, state.config);
+    if (!significance.significant) {
+      console.log(
+        `⏭️ Skipping ${state.owner}/${state.repo}#${state.pull_number}: no docs impact (score ${significance.score}, threshold ${significance.threshold})`
+      );
+      return { result: { skipped: "No docs impact", significance } };
+    }
+    console.log(
+      `📈 Significance score ${significance.score} (threshold ${significance.threshold})`
+    );
+
+    state.docsRepo = await resolveDocsRepo(
+      octokit,
+      state.config,
+      state.owner,
+      state.repo
+    );
+    console.log(
+      `📚 Docs repository: ${state.docsRepo.owner}/${state.docsRepo.repo}@${state.docsRepo.branch}`
+    );
+
+    console.log(
+      `🔎 Reviewing ${state.owner}/${state.repo}#${state.pull_number} at ${state.head_sha || "latest head"}`
+    );
+
+    const result = await agent({
+      input: `Review pull request #${state.pull_number}`,
+      externalCustomerId: state.owner,
+      state,
+    });
+
+    return {
+      pullRequestUrl: result.state?.pullRequestUrl ?? state.pullRequestUrl,
+      result: { significance },
+    };
+  };
+}
+
+/**
+ * Create the job handler that closes the docs PR of a closed source PR
+ * @param baseConfig - Server-wide configuration
+ * @returns Handler for "close_docs_pr" jobs
+ */
+export function createCloseDocsPRJobHandler(
+  baseConfig: Partial<DocConfig> = {}
+): JobHandler {
+  return async (job: Job) => {
+    const state = { ...job.input } as unknown as ReviewState;
+    const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+
+    await applyRepoConfig(octokit, state, baseConfig, false);
+
+    const closedNumber = await closeDocsPullRequest(
+      octokit,
+      state.owner,
+      state.repo,
+      state.pull_number,
+      state.config,
+      await resolveDocsRepo(octokit, state.config, state.owner, state.repo)
+    );
+
+    return { result: { closedDocsPullRequest: closedNumber ?? null } };
+  };
+}
+
+/**
+ * Check a GitHub X-Hub-Signature-256 header against each configured secret.
+ * GitHub signs the raw request body, so this works the same for JSON and
+ * form-encoded deliveries.
+ * @param rawBody - The request body exactly as received
+ * @param signature - Header value in the form "sha256=<hex digest>"
+ * @param secrets - Accepted secrets
+ * @returns true if any secret produces a matching digest
+ */
+function verifySignature(
+  rawBody: string,
+  signature: string,
+  secrets: string[]
+): boolean {
+  const [algorithm, digest] = signature.split("=", 2);
+  if (algorithm !== "sha256" || !digest || !/^[0-9a-f]{64}$/i.test(digest)) {
+    return false;
+  }
+  const received = Buffer.from(digest, "hex");
+
+  return secrets.some((secret) => {
+    const expected = createHmac("sha256", secret).update(rawBody).digest();
+    return timingSafeEqual(expected, received);
+  });
+}
+
+function parseWebhookBody(c: Context, rawBody: string) {
   const contentType = c.req.header("content-type") || "";
 
   if (contentType.includes("application/json")) {
-    return await c.req.json();
+    return JSON.parse(rawBody);
   }
 
   if (contentType.includes("application/x-www-form-urlencoded")) {
-    const formData = await c.req.parseBody();
-    if (typeof formData.payload === "string") {
-      return JSON.parse(formData.payload);
+    const payload = new URLSearchParams(rawBody).get("payload");
+    if (typeof payload === "string") {
+      return JSON.parse(payload);
     }
   }
 
@@ -92,6 +348,14 @@ function isBotPR(pr: any): boolean {
   );
 }
 
+function isUnmergedCloseEvent(event: string, body: any): boolean {
+  return (
+    event === "pull_request" &&
+    body.action === "closed" &&
+    !body.pull_request.merged
+  );
+}
+
 function isRelevantPREvent(event: string, action: string): boolean {
   return event === "pull_request" && ["opened", "synchronize"].includes(action);
 }
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync } from "fs";
+import path from "path";
+import type { Octokit } from "@octokit/rest";
+import { createFullConfig } from "../src/config";
+import {
+  buildDependencyGraph,
+  extractImports,
+  findRelatedFiles,
+  loadDependencyGraph,
+} from "../src/dependencyGraph";
+import { readFixture } from "./fixtures";
+
+// A small repository with TypeScript, Laravel and Django code
+const files = (readdirSync(path.join(__dirname, "fixtures", "repo"), { recursive: true }) as string[])
+  .map((file) => file.split(path.sep).join("/"))
+  .filter((file) => /\.\w+$/.test(file))
+  .sort();
+const sources = new Map(files.map((file) => [file, readFixture(`repo/${file}`)]));
+const graph = buildDependencyGraph(sources, new Set(files));
+
+test("extracts static, side-effect and dynamic imports", () => {
+  assert.deepEqual(extractImports(sources.get("src/pages/cart.tsx")!, "src/pages/cart.tsx"), [
+    "react",
+    "./cart.css",
+    "../features/checkout.js",
+  ]);
+});
+
+test("extracts grouped PHP use statements, not traits", () => {
+  const file = "app/Http/Controllers/UserController.php";
+  assert.deepEqual(extractImports(sources.get(file)!, file), [
+    "App\\Models\\User",
+    "App\\Models\\Team",
+    "Illuminate\\Http\\Request",
+  ]);
+});
+
+test("resolves aliases, ESM extensions, PSR-4 and Python packages", () => {
+  const imports = (file: string) => Array.from(graph.imports.get(file) || []).sort();
+  assert.deepEqual(imports("src/features/checkout.ts"), ["src/services/billing.ts"]);
+  assert.deepEqual(imports("src/pages/cart.tsx"), ["src/features/checkout.ts"]);
+  assert.deepEqual(imports("app/Http/Controllers/UserController.php"), ["app/Models/User.php"]);
+  assert.deepEqual(imports("shop/orders/views.py"), [
+    "shop/__init__.py",
+    "shop/orders/__init__.py",
+    "shop/orders/models.py",
+  ]);
+});
+
+test("follows importers up to the depth", () => {
+  assert.deepEqual(findRelatedFiles(graph, "src/services/billing.ts", 0), []);
+  assert.deepEqual(findRelatedFiles(graph, "src/services/billing.ts", 1), ["src/features/checkout.ts"]);
+  assert.deepEqual(findRelatedFiles(graph, "src/services/billing.ts", 2), [
+    "src/features/checkout.ts",
+    "src/pages/cart.tsx",
+  ]);
+});
+
+test("skips files that can't be read", async () => {
+  const octokit = {
+    git: {
+      getTree: async () => ({
+        data: {
+          tree: files.map((file) => ({ path: file, type: "blob", sha: `sha-${file}`, size: 100 })),
+        },
+      }),
+      getBlob: async ({ file_sha }: { file_sha: string }) => {
+        const file = file_sha.slice("sha-".length);
+        if (file === "src/features/checkout.ts") {
+          throw Object.assign(new Error("Not Found"), { status: 404 });
+        }
+        return { data: { content: Buffer.from(sources.get(file)!).toString("base64") } };
+      },
+    },
+  } as unknown as Octokit;
+
+  const loaded = await loadDependencyGraph(
+    octokit,
+    "owner",
+    "repo",
+    "head",
+    createFullConfig({ preset: "none" }),
+    ["src/services/billing.ts"]
+  );
+  assert.equal(loaded.imports.has("src/features/checkout.ts"), false);
+  assert.deepEqual(Array.from(loaded.imports.get("src/pages/cart.tsx") || []), [
+    "src/features/checkout.ts",
+  ]);
+});
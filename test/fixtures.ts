@@ -0,0 +1,11 @@
+import { readFileSync } from "fs";
+import path from "path";
+
+/**
+ * Read a source file from test/fixtures
+ * @param name - Path relative to the fixtures directory
+ * @returns The file content
+ */
+export function readFixture(name: string): string {
+  return readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+}
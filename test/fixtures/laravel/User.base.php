@@ -0,0 +1,26 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+
+class User extends Model
+{
+    protected $fillable = ['name', 'email', 'password'];
+
+    protected $hidden = ['password'];
+
+    protected $casts = [
+        'email_verified_at' => 'datetime',
+    ];
+
+    public function posts()
+    {
+        return $this->hasMany(Post::class);
+    }
+
+    public function fullName(): string
+    {
+        return $this->name;
+    }
+}
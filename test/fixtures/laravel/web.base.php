@@ -0,0 +1,14 @@
+<?php
+
+use App\Http\Controllers\UserController;
+use Illuminate\Support\Facades\Route;
+
+// Route::get('/commented', fn () => 'not a route');
+Route::get('/', fn () => view('welcome'))->name('home');
+
+Route::prefix('admin')->name('admin.')->group(function () {
+    Route::get('/users', [UserController::class, 'index'])->name('users.index');
+    Route::post('/users', [UserController::class, 'store'])->name('users.store');
+});
+
+Route::get('/reports', [ReportController::class, 'index'])->name('reports');
@@ -0,0 +1,18 @@
+<?php
+
+use App\Http\Controllers\UserController;
+use Illuminate\Support\Facades\Route;
+
+// Route::get('/commented', fn () => 'not a route');
+Route::get('/', fn () => view('welcome'))->name('home');
+
+Route::middleware('auth')->prefix('admin')->name('admin.')->group(function () {
+    Route::get('/users', [UserController::class, 'index'])->name('users.index');
+    Route::group(['middleware' => ['can:manage-users']], function () {
+        Route::post('/users', [UserController::class, 'store'])
+            ->middleware('throttle:10')
+            ->name('users.store');
+    });
+});
+
+Route::get('/reports', [ReportController::class, 'index'])->name('reports.index');
@@ -0,0 +1,11 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\{User, Team as Group};
+use Illuminate\Http\Request;
+
+class UserController extends Controller
+{
+    use AuthorizesRequests;
+}
@@ -0,0 +1,3 @@
+from .models import Order
+from shop import orders
+import json
@@ -0,0 +1,2 @@
+import { charge } from "@/services/billing";
+export { charge };
@@ -0,0 +1,7 @@
+import React from "react";
+import "./cart.css";
+const checkout = () => import("../features/checkout.js");
+
+export default function Cart() {
+  return <button onClick={checkout}>Pay</button>;
+}
@@ -0,0 +1,23 @@
+import { helper } from "./helper";
+
+/** Create a client */
+export function createClient(url: string, options?: { timeout: number }): Client {
+  return { url, options };
+}
+
+export interface Client {
+  url: string;
+  options?: { timeout: number };
+}
+
+export type Mode = "fast" | "safe" | "legacy";
+
+export const TIMEOUT = 1000;
+
+function internal(value: number): number {
+  return value * 2;
+}
+
+export { internal as double, helper };
+
+export function removed(): void {}
@@ -0,0 +1,29 @@
+import { helper } from "./helper";
+
+/**
+ * Create a client, the comment changed
+ */
+export function createClient(url: string, options?: { timeout: number }): Client {
+  // The body changed too
+  return { url, options: options ?? { timeout: 0 } };
+}
+
+export interface Client {
+  url: string;
+  options?: { timeout: number };
+  retries?: number;
+}
+
+export type Mode = "fast" | "safe";
+
+export const TIMEOUT = 2000;
+
+function internal(value: number, factor: number): number {
+  return value * factor;
+}
+
+export { internal as double, helper };
+
+export function added(name: string): string {
+  return name;
+}
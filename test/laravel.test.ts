@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffSymbols } from "../src/analyzers";
+import { extractLaravelSymbols } from "../src/analyzers/laravel";
+import { isBreakingSymbolChange } from "../src/breakingChanges";
+import { readFixture } from "./fixtures";
+
+function diffFixtures(name: string, fileName: string) {
+  const base = extractLaravelSymbols(readFixture(`laravel/${name}.base.php`), fileName);
+  const head = extractLaravelSymbols(readFixture(`laravel/${name}.head.php`), fileName);
+  const changes = diffSymbols(base, head);
+  return {
+    base,
+    head,
+    change: (symbol: string) => changes.find((item) => item.name === symbol),
+  };
+}
+
+test("extracts routes with group prefixes and names", () => {
+  const { base } = diffFixtures("web", "routes/web.php");
+  assert.deepEqual(Array.from(base.values(), (symbol) => symbol.signature), [
+    "GET / -> closure -> name home",
+    "GET /admin/users -> [UserController::class, 'index'] -> name admin.users.index",
+    "POST /admin/users -> [UserController::class, 'store'] -> name admin.users.store",
+    "GET /reports -> [ReportController::class, 'index'] -> name reports",
+  ]);
+});
+
+test("merges group middleware from outer to inner groups", () => {
+  const { head } = diffFixtures("web", "routes/web.php");
+  assert.equal(
+    head.get("route:GET /admin/users")?.signature,
+    "GET /admin/users -> [UserController::class, 'index'] -> name admin.users.index -> middleware auth"
+  );
+  assert.equal(
+    head.get("route:POST /admin/users")?.signature,
+    "POST /admin/users -> [UserController::class, 'store'] -> name admin.users.store -> middleware auth, can:manage-users, throttle:10"
+  );
+});
+
+test("flags routes moved into a middleware group and renamed routes", () => {
+  const { change } = diffFixtures("web", "routes/web.php");
+  assert.equal(isBreakingSymbolChange(change("GET /admin/users")!), true);
+  assert.equal(isBreakingSymbolChange(change("POST /admin/users")!), true);
+  assert.equal(isBreakingSymbolChange(change("GET /reports")!), true);
+  assert.equal(change("GET /"), undefined);
+});
+
+test("extracts model attributes, casts and relations", () => {
+  const { base } = diffFixtures("User", "app/Models/User.php");
+  assert.deepEqual(Object.fromEntries(Array.from(base, ([key, symbol]) => [key, symbol.signature])), {
+    "cast:User::$email_verified_at": "datetime",
+    "attribute:User::$name": "fillable",
+    "attribute:User::$email": "fillable",
+    "attribute:User::$password": "fillable, hidden",
+    "relation:User::posts": "hasMany(Post::class)",
+    "method:User::fullName": "public function fullName(): string",
+  });
+});
+
+test("classifies model changes", () => {
+  const { change } = diffFixtures("User", "app/Models/User.php");
+  // Leaving $fillable breaks mass assignment, a new hidden attribute doesn't
+  assert.equal(isBreakingSymbolChange(change("User::$password")!), true);
+  assert.equal(isBreakingSymbolChange(change("User::$remember_token")!), false);
+  assert.equal(isBreakingSymbolChange(change("User::$email_verified_at")!), true);
+  assert.equal(isBreakingSymbolChange(change("User::$is_admin")!), false);
+  assert.equal(isBreakingSymbolChange(change("User::posts")!), true);
+  assert.equal(change("User::fullName"), undefined);
+});
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffSymbols } from "../src/analyzers";
+import { extractOpenApiSymbols } from "../src/analyzers/openapi";
+import { classifyBreakingChanges } from "../src/breakingChanges";
+import type { CodeChange } from "../src/types";
+import { readFixture } from "./fixtures";
+
+// The same spec before as YAML and after as JSON
+const base = extractOpenApiSymbols(readFixture("openapi/base.yaml"), "openapi.yaml");
+const head = extractOpenApiSymbols(readFixture("openapi/head.json"), "openapi.json");
+
+function classify(): CodeChange {
+  const change: CodeChange = {
+    file: "openapi.json",
+    patch: "",
+    type: "modified",
+    significance: {
+      hasExports: false,
+      hasInterfaces: false,
+      hasClasses: false,
+      hasTypes: false,
+      hasEnums: false,
+      isTest: false,
+      isImportant: true,
+    },
+    symbols: diffSymbols(base, head),
+  };
+  classifyBreakingChanges([change], []);
+  return change;
+}
+
+const symbol = (name: string) => classify().symbols?.find((item) => item.name === name);
+
+test("flattens operations, parameters, bodies, responses and schemas", () => {
+  assert.equal(base.get("operation:GET /pets")?.signature, "summary: List pets; operationId: listPets");
+  assert.equal(base.get("parameter:DELETE /pets/{id} path id parameter")?.signature, "required string");
+  assert.equal(base.get("requestBody:POST /pets request body")?.signature, "name!: string");
+  assert.equal(
+    base.get("response:GET /pets 200 response")?.signature,
+    "[].id: string; [].name: string; [].tag: string; []: Pet"
+  );
+  assert.equal(base.get("schema:Pet")?.signature, "id: string; name: string; tag: string");
+});
+
+test("rejects files that aren't specs", () => {
+  assert.throws(() => extractOpenApiSymbols("name: app", "openapi.yaml"), /is not an OpenAPI spec/);
+});
+
+test("lists added, removed and changed operations", () => {
+  assert.equal(symbol("GET /pets/{id}")?.change, "added");
+  assert.equal(symbol("DELETE /pets/{id}")?.change, "removed");
+  assert.equal(symbol("GET /pets")?.change, "changed");
+  assert.equal(symbol("POST /pets"), undefined);
+});
+
+test("flags changes existing clients can't follow", () => {
+  assert.equal(symbol("DELETE /pets/{id}")?.breaking, true);
+  assert.equal(symbol("GET /pets query owner parameter")?.breaking, true);
+  assert.equal(symbol("GET /pets 200 response")?.breaking, true);
+  assert.equal(symbol("Pet")?.breaking, true);
+});
+
+test("keeps compatible changes non-breaking", () => {
+  // A new summary, a new optional request field and a new operation
+  assert.equal(symbol("GET /pets")?.breaking, false);
+  assert.equal(symbol("POST /pets request body")?.breaking, false);
+  assert.equal(symbol("NewPet")?.breaking, false);
+  assert.equal(symbol("GET /pets/{id}")?.breaking, false);
+  assert.equal(symbol("GET /pets/{id} path id parameter")?.breaking, false);
+});
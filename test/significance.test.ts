@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFullConfig } from "../src/config";
+import { scorePullRequest } from "../src/significance";
+import { readFixture } from "./fixtures";
+
+// PR files as listed by GitHub
+const dependencyBump = JSON.parse(readFixture("significance/dependency-bump.json"));
+const feature = JSON.parse(readFixture("significance/feature.json"));
+
+const config = createFullConfig({ preset: "none", importantPatterns: ["src/api/**"] });
+
+test("counts nothing for ignored files, lockfiles, tests and version bumps", () => {
+  const result = scorePullRequest(dependencyBump, config);
+  assert.equal(result.score, 0);
+  assert.equal(result.significant, false);
+  assert.deepEqual(result.reasons, [
+    "3 files not counted (ignored by ignorePatterns): package.json, package-lock.json, node_modules/hono/index.js",
+    "1 file not counted (dependency bump): pyproject.toml",
+    "1 file not counted (tests): src/server.test.ts",
+    "No file can affect the documentation",
+  ]);
+});
+
+test("weighs important files, declarations and new files", () => {
+  const result = scorePullRequest(feature, config);
+  assert.equal(result.score, 7.4);
+  assert.equal(result.significant, true);
+  assert.deepEqual(result.reasons, [
+    "1 file not counted (documentation): docs/api/invoices.mdx",
+    "src/api/invoices.ts: +6.6 (important file, 42 changed lines, declarations changed, added)",
+    "scripts/format.ts: +0.8 (other file, 5 changed lines)",
+  ]);
+});
+
+test("compares the score to the configured threshold", () => {
+  const small = feature.filter((file: { filename: string }) => file.filename !== "src/api/invoices.ts");
+  assert.equal(scorePullRequest(small, config).significant, false);
+  const lenient = createFullConfig({
+    preset: "none",
+    importantPatterns: ["src/api/**"],
+    significanceThreshold: 0.5,
+  });
+  assert.equal(scorePullRequest(small, lenient).significant, true);
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffSymbols } from "../src/analyzers";
+import { extractExportedSymbols } from "../src/analyzers/typescript";
+import { isBreakingSymbolChange } from "../src/breakingChanges";
+import { readFixture } from "./fixtures";
+
+const base = extractExportedSymbols(readFixture("typescript/base.ts"), "base.ts");
+const head = extractExportedSymbols(readFixture("typescript/head.ts"), "head.ts");
+const changes = diffSymbols(base, head);
+const change = (name: string) => changes.find((item) => item.name === name);
+
+test("extracts exported symbols only", () => {
+  assert.deepEqual(
+    Array.from(base.keys()).sort(),
+    ["Client", "Mode", "TIMEOUT", "createClient", "double", "helper", "removed"]
+  );
+});
+
+test("ignores comments, bodies and initializer values", () => {
+  assert.equal(change("createClient"), undefined);
+  assert.equal(change("TIMEOUT"), undefined);
+  assert.equal(head.get("TIMEOUT")?.signature, "const TIMEOUT: number");
+});
+
+test("lists added, removed and changed symbols", () => {
+  assert.equal(change("added")?.change, "added");
+  assert.equal(change("removed")?.change, "removed");
+  assert.equal(change("Client")?.change, "changed");
+  assert.equal(change("Mode")?.change, "changed");
+});
+
+test("resolves export lists to their local declarations", () => {
+  assert.equal(base.get("double")?.signature, "function internal(value: number): number;");
+  assert.equal(change("double")?.change, "changed");
+  assert.equal(base.get("helper")?.kind, "reexport");
+  assert.equal(change("helper"), undefined);
+});
+
+test("classifies breaking changes from the signatures", () => {
+  assert.equal(isBreakingSymbolChange(change("Client")!), false);
+  assert.equal(isBreakingSymbolChange(change("Mode")!), true);
+  assert.equal(isBreakingSymbolChange(change("double")!), true);
+  assert.equal(isBreakingSymbolChange(change("removed")!), true);
+  assert.equal(isBreakingSymbolChange(change("added")!), false);
+});